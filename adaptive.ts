@@ -0,0 +1,53 @@
+import type { Difficulty, Quiz } from "./types.ts";
+import type { AttemptLayout } from "./shuffle.ts";
+
+// Rasch item difficulties, on the same scale as the ability estimate
+export const LEVEL_DIFFICULTY: Record<Difficulty, number> = { Easy: -1, Medium: 0, Hard: 1 };
+
+export interface AdaptiveResponse {
+  difficulty: Difficulty;
+  correct: boolean;
+}
+
+export const questionDifficulties = (quiz: Pick<Quiz, "difficulty"> & { questions: { difficulty?: Difficulty }[] }): Difficulty[] =>
+  quiz.questions.map(q => q.difficulty ?? quiz.difficulty);
+
+export const adaptiveLength = (quiz: Pick<Quiz, "adaptiveLength"> & { questions: unknown[] }) =>
+  Math.min(quiz.adaptiveLength ?? quiz.questions.length, quiz.questions.length);
+
+// Expected a posteriori estimate over a grid with a standard normal prior,
+// so it stays finite when every answer so far is right (or wrong)
+export const estimateAbility = (responses: AdaptiveResponse[]) => {
+  let weighted = 0, total = 0;
+  for (let theta = -4; theta <= 4.001; theta += 0.1) {
+    let likelihood = Math.exp(-theta * theta / 2);
+    responses.forEach(({ difficulty, correct }) => {
+      const p = 1 / (1 + Math.exp(LEVEL_DIFFICULTY[difficulty] - theta));
+      likelihood *= correct ? p : 1 - p;
+    });
+    weighted += theta * likelihood;
+    total += likelihood;
+  }
+  return weighted / total;
+};
+
+export const abilityLevel = (ability: number): Difficulty =>
+  ability < -0.5 ? "Easy" : ability < 0.5 ? "Medium" : "Hard";
+
+// The unserved question closest in difficulty to the current estimate, picked at random among ties
+export const nextAdaptiveQuestion = (difficulties: Difficulty[], served: number[], responses: AdaptiveResponse[], random = Math.random): number | null => {
+  const ability = estimateAbility(responses);
+  const pool = difficulties.map((_, i) => i).filter(i => !served.includes(i));
+  if (pool.length === 0) return null;
+  const distance = (i: number) => Math.abs(LEVEL_DIFFICULTY[difficulties[i]] - ability);
+  const closest = Math.min(...pool.map(distance));
+  const candidates = pool.filter(i => distance(i) === closest);
+  return candidates[Math.floor(random() * candidates.length)];
+};
+
+export const adaptiveResponses = (difficulties: Difficulty[], served: number[], responses: boolean[]): AdaptiveResponse[] =>
+  responses.map((correct, n) => ({ difficulty: difficulties[served[n]], correct }));
+
+// Adaptive attempts are reviewed in the order their questions were served, skipping the rest
+export const servedLayout = (layout: AttemptLayout, served?: number[]): AttemptLayout =>
+  served ? { ...layout, questionOrder: served } : layout;
@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { adminAuth } from "./firebaseAdmin.ts";
+
+// Verifies the Firebase ID token from `Authorization: Bearer <token>` and its role claim.
+// Sends the error response itself and returns null when the caller doesn't have the role.
+const requireRole = async (req: VercelRequest, res: VercelResponse, role: "teacher" | "student", label: string): Promise<DecodedIdToken | null> => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+  if (!match) {
+    res.status(401).json({ error: "Sign in required" });
+    return null;
+  }
+  try {
+    const token = await adminAuth.verifyIdToken(match[1]);
+    if (token.role !== role) {
+      res.status(403).json({ error: `${label} access required` });
+      return null;
+    }
+    return token;
+  } catch {
+    res.status(401).json({ error: "Invalid or expired session" });
+    return null;
+  }
+};
+
+export const requireTeacher = (req: VercelRequest, res: VercelResponse) => requireRole(req, res, "teacher", "Teacher");
+
+// Students sign in with a custom token from /api/student-login, so token.uid is their student ID
+export const requireStudent = (req: VercelRequest, res: VercelResponse) => requireRole(req, res, "student", "Student");
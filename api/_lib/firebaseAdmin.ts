@@ -0,0 +1,17 @@
+import { initializeApp, getApps, cert } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { getAuth } from "firebase-admin/auth";
+import { getStorage } from "firebase-admin/storage";
+
+// FIREBASE_SERVICE_ACCOUNT holds the service account JSON on Vercel.
+// Locally the Admin SDK picks up FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST / FIREBASE_STORAGE_EMULATOR_HOST.
+const app = getApps()[0] ?? initializeApp({
+  ...(process.env.FIREBASE_SERVICE_ACCOUNT
+    ? { credential: cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT)) }
+    : { projectId: process.env.FIREBASE_PROJECT_ID }),
+  storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
+});
+
+export const adminDb = getFirestore(app);
+export const adminAuth = getAuth(app);
+export const adminStorage = getStorage(app);
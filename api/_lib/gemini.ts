@@ -0,0 +1,242 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { randomUUID } from "crypto";
+import { OPTION_COUNT, isValidQuestion, parseModelJson, validateQuestions, QuizValidationError } from "../../quizValidation.ts";
+import { normalizeStudyPack } from "../../studyPacks.ts";
+import type { Difficulty, GenerateQuizResponse, GenerateStudyPackResponse, McqQuestion, Passage } from "../../types.ts";
+
+const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+const MODEL = "gemini-3-flash-preview";
+
+const quizSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A creative title for the quiz" },
+    subject: { type: Type.STRING, description: "The academic subject (e.g. Mathematics, History, Science)" },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "The question text" },
+          options: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "4 possible answers"
+          },
+          correctIndex: { type: Type.INTEGER, description: "Index of the correct answer (0-3)" },
+          explanation: { type: Type.STRING, description: "A helpful explanation of why the correct answer is the right choice." }
+        },
+        required: ["text", "options", "correctIndex", "explanation"]
+      }
+    }
+  },
+  required: ["title", "subject", "questions"]
+};
+
+const passageQuizSchema = {
+  ...quizSchema,
+  properties: {
+    ...quizSchema.properties,
+    passage: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING, description: "Title of the passage or poem" },
+        text: { type: Type.STRING, description: "The full passage text; keep line breaks for poems" },
+        kind: { type: Type.STRING, enum: ["prose", "poem"] }
+      },
+      required: ["title", "text", "kind"]
+    }
+  },
+  required: ["title", "subject", "passage", "questions"]
+};
+
+export interface GenerateQuizInput {
+  prompt?: string;
+  numQuestions: number;
+  difficulty: Difficulty;
+  file?: { data: string; mimeType: string };
+  withPassage?: boolean;
+}
+
+interface RequestOptions {
+  passage?: Passage; // Ask for questions on this passage instead of the original source
+  extraInstructions?: string;
+}
+
+// Replacement rounds for invalid or missing questions before giving up
+const MAX_REPAIR_ROUNDS = 2;
+
+const requestQuiz = async ({ prompt, difficulty, file, withPassage }: GenerateQuizInput, count: number, { passage, extraInstructions = "" }: RequestOptions = {}): Promise<Record<string, unknown>> => {
+  const parts: any[] = [];
+  const difficultyPrompt = `The difficulty level must be ${difficulty}.`;
+  const wantsPassage = withPassage && !passage;
+  const passagePrompt = wantsPassage
+    ? ` This is a reading comprehension set: first ${file ? "take one self-contained excerpt (150-350 words) from the document, quoted exactly," : "write one original, unseen passage or poem (150-350 words)"} as "passage", then ask questions that can only be answered by reading it.`
+    : "";
+
+  if (passage) {
+    parts.push({
+      text: `Generate questions about the following ${passage.kind === "poem" ? "poem" : "passage"}${passage.title ? ` titled "${passage.title}"` : ""}:\n\n${passage.text}\n\nCreate exactly ${count} multiple choice questions that can only be answered by reading it. ${difficultyPrompt}${extraInstructions}`,
+    });
+  } else if (file) {
+    parts.push({
+      inlineData: {
+        data: file.data,
+        mimeType: file.mimeType,
+      },
+    });
+    parts.push({
+      text: `Generate a quiz based on this document. Create exactly ${count} multiple choice questions. ${difficultyPrompt}${passagePrompt}${extraInstructions}`,
+    });
+  } else {
+    parts.push({
+      text: `Generate a quiz based on the following topic/content: "${prompt}". Create exactly ${count} multiple choice questions. ${difficultyPrompt}${passagePrompt}${extraInstructions}`,
+    });
+  }
+
+  const response = await genAI.models.generateContent({
+    model: MODEL,
+    contents: { parts },
+    config: {
+      systemInstruction: "You are an expert educator designed to create high-quality quizzes. For EVERY question, you MUST provide a clear, concise 'explanation' that describes exactly why the correct answer is right. This explanation is critical for student learning.",
+      responseMimeType: "application/json",
+      responseSchema: wantsPassage ? passageQuizSchema : quizSchema,
+    }
+  });
+
+  if (!response.text) throw new Error("Gemini returned an empty response");
+  try {
+    const data = parseModelJson(response.text);
+    return data && typeof data === "object" ? data as Record<string, unknown> : {};
+  } catch {
+    // Unparseable output counts as every question missing, so it gets re-requested
+    return {};
+  }
+};
+
+// The response schema only describes single-answer MCQs
+const normalizeQuestion = (q: McqQuestion): McqQuestion => ({
+  text: q.text.trim(),
+  options: q.options.map(o => o.trim()),
+  correctIndex: q.correctIndex,
+  ...(q.explanation?.trim() ? { explanation: q.explanation.trim() } : {}),
+});
+
+const toPassage = (value: unknown): Passage | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+  const { title, text, kind } = value as Record<string, unknown>;
+  if (typeof text !== "string" || !text.trim()) return undefined;
+  return {
+    id: randomUUID(),
+    ...(typeof title === "string" && title.trim() ? { title: title.trim() } : {}),
+    text: text.trim(),
+    kind: kind === "poem" ? "poem" : "prose",
+  };
+};
+
+// Generates the quiz, then re-prompts only for questions that fail validation or are missing.
+// Throws QuizValidationError with the per-question report if some still cannot be fixed.
+export const generateQuiz = async (input: GenerateQuizInput): Promise<GenerateQuizResponse> => {
+  const { numQuestions, withPassage } = input;
+  let data = await requestQuiz(input, numQuestions);
+  // Without a usable passage the questions are meaningless, so ask once more for the whole set
+  if (withPassage && !toPassage(data.passage)) data = await requestQuiz(input, numQuestions);
+  const passage: Passage | undefined = withPassage ? toPassage(data.passage) : undefined;
+  if (withPassage && !passage) {
+    throw new QuizValidationError({
+      valid: false,
+      expected: numQuestions,
+      received: 0,
+      issues: [{ index: null, field: "passage", message: "was missing from the response" }],
+    });
+  }
+
+  const received = Array.isArray(data.questions) ? data.questions as unknown[] : [];
+
+  // Latest candidate for each slot; extra questions beyond numQuestions are dropped
+  const candidates: unknown[] = Array.from({ length: numQuestions }, (_, i) => received[i]);
+
+  for (let round = 0; round < MAX_REPAIR_ROUNDS; round++) {
+    const broken = candidates.flatMap((q, i) => isValidQuestion(q) ? [] : [i]);
+    if (broken.length === 0) break;
+
+    const kept = candidates.filter(isValidQuestion).map(q => q.text);
+    const repair = await requestQuiz(input, broken.length, {
+      passage,
+      extraInstructions:
+        ` Each question must have exactly ${OPTION_COUNT} distinct, non-empty options and a correctIndex from 0 to ${OPTION_COUNT - 1}.` +
+        (kept.length ? ` Do not repeat any of these existing questions: ${JSON.stringify(kept)}` : ""),
+    });
+    const replacements = Array.isArray(repair.questions) ? repair.questions as unknown[] : [];
+    broken.forEach((slot, i) => {
+      if (replacements[i] !== undefined) candidates[slot] = replacements[i];
+    });
+  }
+
+  const report = validateQuestions(candidates, numQuestions);
+  if (!report.valid) throw new QuizValidationError(report);
+
+  return {
+    title: typeof data.title === "string" && data.title.trim() ? data.title.trim() : "Untitled Quiz",
+    subject: typeof data.subject === "string" && data.subject.trim() ? data.subject.trim() : "General",
+    questions: (candidates as McqQuestion[]).map(q => ({
+      ...normalizeQuestion(q),
+      ...(passage ? { passageId: passage.id } : {}),
+    })),
+    ...(passage ? { passages: [passage] } : {}),
+  };
+};
+
+const studyPackSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.ARRAY, items: { type: Type.STRING }, description: "5-10 short bullet points covering the main ideas" },
+    vocabulary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          meaning: { type: Type.STRING, description: "A short, student-friendly meaning as used in the document" }
+        },
+        required: ["term", "meaning"]
+      }
+    },
+    flashcards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          front: { type: Type.STRING, description: "A question or cue" },
+          back: { type: Type.STRING, description: "The answer, in one or two sentences" }
+        },
+        required: ["front", "back"]
+      }
+    }
+  },
+  required: ["summary", "vocabulary", "flashcards"]
+};
+
+// A revision pack for one study note; the teacher reviews it before students see it
+export const generateStudyPack = async (file: { data: string; mimeType: string }): Promise<GenerateStudyPackResponse> => {
+  const response = await genAI.models.generateContent({
+    model: MODEL,
+    contents: {
+      parts: [
+        { inlineData: { data: file.data, mimeType: file.mimeType } },
+        { text: "Create a study pack for students revising this document: a bullet summary, the key vocabulary with meanings, and 10-20 flashcards that test the important facts and ideas. Use only what the document covers." },
+      ],
+    },
+    config: {
+      systemInstruction: "You are an expert educator who writes clear, accurate revision material for school students.",
+      responseMimeType: "application/json",
+      responseSchema: studyPackSchema,
+    }
+  });
+
+  if (!response.text) throw new Error("Gemini returned an empty response");
+  const pack = normalizeStudyPack(parseModelJson(response.text));
+  if (pack.summary.length === 0 && pack.flashcards.length === 0) throw new Error("Gemini returned an empty study pack");
+  return pack;
+};
@@ -0,0 +1,13 @@
+import { adminDb, adminStorage } from "./firebaseAdmin.ts";
+import type { Note } from "../../types.ts";
+
+// A stored note's file as base64, ready to pass to Gemini; null when the note is gone
+export const loadNoteFile = async (noteId: string): Promise<{ note: Note; data: string; mimeType: string } | null> => {
+  const snap = await adminDb.collection("notes").doc(noteId).get();
+  if (!snap.exists) return null;
+  const note = { id: snap.id, ...snap.data() } as Note;
+  // Notes uploaded before Storage still carry the file inline
+  if (!note.storagePath) return note.fileData ? { note, data: note.fileData, mimeType: note.mimeType } : null;
+  const [contents] = await adminStorage.bucket().file(note.storagePath).download();
+  return { note, data: contents.toString("base64"), mimeType: note.mimeType };
+};
@@ -0,0 +1,19 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Stored as "salt:hash" in the server-only `studentPins` collection
+export const hashPin = async (pin: string) => {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(pin, salt, 32);
+  return `${salt}:${hash.toString("hex")}`;
+};
+
+export const verifyPin = async (pin: string, stored: string) => {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(pin, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+};
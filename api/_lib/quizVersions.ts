@@ -0,0 +1,31 @@
+import { adminDb } from "./firebaseAdmin.ts";
+import { quizVersionId, toQuestionKey } from "../../grading.ts";
+import type { AnswerKey, PublishedQuiz, Question, QuestionKey, QuizVersion } from "../../types.ts";
+
+export interface VersionedQuiz {
+  quiz: PublishedQuiz;
+  key: QuestionKey[];
+}
+
+// The quiz and key as published at `version`, or the live ones when no version is given.
+// Versions published before they were archived fall back to the live quiz; its `version` says which one it is.
+export const loadQuizVersion = async (quizId: string, version?: number): Promise<VersionedQuiz | null> => {
+  if (version !== undefined) {
+    const archived = await adminDb.collection("quizVersions").doc(quizVersionId(quizId, version)).get();
+    if (archived.exists) {
+      const { quiz, key } = archived.data() as QuizVersion;
+      return { quiz: { id: quizId, ...quiz }, key };
+    }
+  }
+  const [quizSnap, keySnap] = await Promise.all([
+    adminDb.collection("quizzes").doc(quizId).get(),
+    adminDb.collection("quizKeys").doc(quizId).get(),
+  ]);
+  if (!quizSnap.exists) return null;
+  const quiz = { id: quizSnap.id, ...quizSnap.data() } as PublishedQuiz;
+  // Quizzes published before keys were split out still carry them inline
+  const key = keySnap.exists
+    ? (keySnap.data() as AnswerKey).questions
+    : (quiz.questions as Question[]).map(toQuestionKey);
+  return { quiz, key };
+};
@@ -0,0 +1,26 @@
+import { adminDb } from "./firebaseAdmin.ts";
+import { newSchedule } from "../../srs.ts";
+import type { PublicQuestion, PublishedQuiz, Question, QuestionKey, ReviewCard } from "../../types.ts";
+
+// Puts each missed question back at the start of the student's review schedule.
+// A card missed again keeps its ease factor, so questions that keep slipping come back sooner.
+export const addToReviewDeck = async (studentId: string, quizId: string, quiz: Omit<PublishedQuiz, "id">, key: QuestionKey[], missed: number[]) => {
+  if (missed.length === 0) return;
+
+  const refs = missed.map(i => adminDb.collection("reviewCards").doc(`${studentId}_${quizId}_${i}`));
+  const existing = await adminDb.getAll(...refs);
+  const now = Date.now();
+  const batch = adminDb.batch();
+  missed.forEach((i, n) => {
+    const question = { ...(quiz.questions[i] as PublicQuestion), ...key[i] } as Question;
+    const passage = quiz.passages?.find(p => p.id === question.passageId);
+    const schedule = newSchedule(now);
+    if (existing[n].exists) {
+      batch.update(refs[n], { question, ...(passage ? { passage } : {}), ...schedule, easeFactor: existing[n].get("easeFactor") });
+      return;
+    }
+    const card: Omit<ReviewCard, "id"> = { studentId, quizId, questionIndex: i, question, ...(passage ? { passage } : {}), ...schedule, createdAt: now };
+    batch.create(refs[n], card);
+  });
+  await batch.commit();
+};
@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { loadQuizVersion } from "./_lib/quizVersions.ts";
+import { isAnswerCorrect, isValidAnswer } from "../grading.ts";
+import { ATTEMPT_GRACE_MS, attemptEndsAt } from "../attempts.ts";
+import { adaptiveLength, adaptiveResponses, nextAdaptiveQuestion, questionDifficulties } from "../adaptive.ts";
+import type { AdaptiveNextRequest, AdaptiveNextResponse, Attempt, Question } from "../types.ts";
+
+// Grades the current adaptive question, locks its answer and serves the next one
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { attemptId, answer } = (req.body || {}) as Partial<AdaptiveNextRequest>;
+    if (typeof attemptId !== "string" || !attemptId) {
+      return res.status(400).json({ error: "Missing attemptId" });
+    }
+
+    const attemptRef = adminDb.collection("attempts").doc(attemptId);
+    const attemptSnap = await attemptRef.get();
+    if (!attemptSnap.exists) {
+      return res.status(404).json({ error: "Attempt not found" });
+    }
+    const { quizId, studentId, quizVersion } = attemptSnap.data() as Omit<Attempt, "id">;
+    if (studentId !== token.uid) {
+      return res.status(403).json({ error: "This attempt belongs to another student" });
+    }
+
+    // Served from the version the attempt started on, like the grading at submission
+    const versioned = await loadQuizVersion(quizId, quizVersion);
+    if (!versioned?.quiz.adaptive) {
+      return res.status(400).json({ error: "This quiz is not adaptive" });
+    }
+    const { quiz, key } = versioned;
+    const questions = quiz.questions as Question[];
+    const difficulties = questionDifficulties(quiz);
+
+    // In a transaction so a double-clicked Next can't grade the same question twice
+    const result = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(attemptRef);
+      const attempt = { id: snap.id, ...snap.data() } as Attempt;
+      const served = attempt.served ?? [];
+      const responses = attempt.responses ?? [];
+      if (attempt.status !== "in-progress") return { error: "This attempt has already been submitted" };
+      if (Date.now() > attemptEndsAt(attempt, quiz) + ATTEMPT_GRACE_MS) return { error: "Time is up for this attempt" };
+      if (responses.length >= served.length) return { attempt, done: true };
+
+      const current = served[served.length - 1];
+      if (!isValidAnswer(answer, questions[current])) return { error: "Answer does not match the question" };
+      const nextResponses = [...responses, isAnswerCorrect(key[current], answer)];
+      const next = served.length < adaptiveLength(quiz)
+        ? nextAdaptiveQuestion(difficulties, served, adaptiveResponses(difficulties, served, nextResponses))
+        : null;
+      const nextServed = next === null ? served : [...served, next];
+      const update = {
+        answers: { ...attempt.answers, [String(current)]: answer },
+        served: nextServed,
+        responses: nextResponses,
+        updatedAt: Date.now(),
+      };
+      tx.update(attemptRef, update);
+      return { attempt: { ...attempt, ...update }, done: next === null };
+    });
+
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+    const body: AdaptiveNextResponse = { attempt: result.attempt, done: result.done };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Adaptive quiz error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not load the next question",
+    });
+  }
+}
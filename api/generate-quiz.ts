@@ -1,7 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { requireTeacher } from "./_lib/auth.ts";
+import { generateQuiz } from "./_lib/gemini.ts";
+import { loadNoteFile } from "./_lib/noteFiles.ts";
+import { QuizValidationError } from "../quizValidation.ts";
+import type { Difficulty, GenerateQuizRequest } from "../types.ts";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
 
 export default async function handler(
   req: VercelRequest,
@@ -11,40 +15,43 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
+  if (!(await requireTeacher(req, res))) return;
+
   try {
-    const { prompt, numQuestions } = req.body;
+    const { prompt, numQuestions, difficulty, file, noteId, withPassage } = (req.body || {}) as Partial<GenerateQuizRequest>;
 
-    if (!prompt || !numQuestions) {
-      return res.status(400).json({ error: "Missing prompt or numQuestions" });
+    if (!prompt && !file?.data && !noteId) {
+      return res.status(400).json({ error: "Missing prompt, file or note" });
     }
-
- const model = genAI.getGenerativeModel({
-  model: "gemini-3-flash-preview",
-});
-
-
-    const result = await model.generateContent(`
-Create exactly ${numQuestions} MCQ questions on "${prompt}".
-
-Return ONLY valid JSON in this format:
-
-{
-  "title": "Quiz title",
-  "questions": [
-    {
-      "text": "Question?",
-      "options": ["A", "B", "C", "D"],
-      "correctIndex": 0
+    if (!Number.isInteger(numQuestions) || numQuestions! < 1 || numQuestions! > 20) {
+      return res.status(400).json({ error: "numQuestions must be between 1 and 20" });
+    }
+    if (!difficulty || !DIFFICULTIES.includes(difficulty)) {
+      return res.status(400).json({ error: "Invalid difficulty" });
+    }
+    if (noteId !== undefined && (typeof noteId !== "string" || !noteId)) {
+      return res.status(400).json({ error: "Invalid noteId" });
+    }
+    if (file && (!file.data || file.mimeType !== "application/pdf")) {
+      return res.status(400).json({ error: "Only PDF files are supported" });
     }
-  ]
-}
-    `);
 
-    const text = result.response.text();
-    const data = JSON.parse(text);
+    // Stored notes are read here, so the teacher doesn't have to download and re-upload them
+    let source = file;
+    if (noteId) {
+      const stored = await loadNoteFile(noteId);
+      if (!stored) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      source = { data: stored.data, mimeType: stored.mimeType };
+    }
 
+    const data = await generateQuiz({ prompt, numQuestions: numQuestions!, difficulty, file: source, withPassage: withPassage === true });
     return res.status(200).json(data);
   } catch (err: any) {
+    if (err instanceof QuizValidationError) {
+      return res.status(422).json({ error: err.message, report: err.report });
+    }
     console.error("Gemini error:", err);
     return res.status(500).json({
       error: err.message || "Gemini generation failed",
@@ -0,0 +1,37 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireTeacher } from "./_lib/auth.ts";
+import { generateStudyPack } from "./_lib/gemini.ts";
+import { loadNoteFile } from "./_lib/noteFiles.ts";
+import type { GenerateStudyPackRequest, GenerateStudyPackResponse } from "../types.ts";
+
+// Drafts a summary, vocabulary list and flashcards from a stored note; the teacher saves the edited result
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!(await requireTeacher(req, res))) return;
+
+  try {
+    const { noteId } = (req.body || {}) as Partial<GenerateStudyPackRequest>;
+    if (typeof noteId !== "string" || !noteId) {
+      return res.status(400).json({ error: "Missing noteId" });
+    }
+
+    const stored = await loadNoteFile(noteId);
+    if (!stored) {
+      return res.status(404).json({ error: "Note not found" });
+    }
+
+    const body: GenerateStudyPackResponse = await generateStudyPack({ data: stored.data, mimeType: stored.mimeType });
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Study pack error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not generate the study pack",
+    });
+  }
+}
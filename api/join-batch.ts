@@ -0,0 +1,51 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { normalizeJoinCode } from "../batches.ts";
+import type { Batch, BatchCode, Enrollment, JoinBatchRequest, JoinBatchResponse, Student } from "../types.ts";
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { code } = (req.body || {}) as Partial<JoinBatchRequest>;
+
+    if (typeof code !== "string" || !code.trim()) {
+      return res.status(400).json({ error: "Missing code" });
+    }
+
+    const codeSnap = await adminDb.collection("batchCodes").doc(normalizeJoinCode(code)).get();
+    const batchSnap = codeSnap.exists
+      ? await adminDb.collection("batches").doc((codeSnap.data() as BatchCode).batchId).get()
+      : null;
+    if (!batchSnap?.exists) {
+      return res.status(404).json({ error: "No batch found for that code" });
+    }
+    const batch = { id: batchSnap.id, ...batchSnap.data() } as Batch;
+
+    // One enrollment per student and batch, so joining twice is harmless
+    const enrollmentRef = adminDb.collection("enrollments").doc(`${batch.id}_${token.uid}`);
+    if (!(await enrollmentRef.get()).exists) {
+      const studentSnap = await adminDb.collection("students").doc(token.uid).get();
+      const studentName = (studentSnap.data() as Omit<Student, "id"> | undefined)?.name ?? "";
+      const enrollment: Omit<Enrollment, "id"> = { batchId: batch.id, studentId: token.uid, studentName, joinedAt: Date.now() };
+      await enrollmentRef.set(enrollment);
+    }
+
+    const body: JoinBatchResponse = { batch };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Join batch error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not join batch",
+    });
+  }
+}
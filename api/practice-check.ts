@@ -0,0 +1,103 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { isAnswerCorrect, isValidAnswer, toQuestionKey } from "../grading.ts";
+import { isAssignedTo } from "../batches.ts";
+import { practiceAvailable } from "../schedule.ts";
+import type { AnswerKey, Enrollment, PracticeCheckRequest, PracticeCheckResponse, PracticeSession, PublishedQuiz, Question, QuestionKey } from "../types.ts";
+
+// Checks one practice answer at a time, so the key itself never reaches the student
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { quizId, sessionId, questionIndex, answer } = (req.body || {}) as Partial<PracticeCheckRequest>;
+    if (typeof quizId !== "string" || !quizId || !Number.isInteger(questionIndex)) {
+      return res.status(400).json({ error: "Missing quizId or questionIndex" });
+    }
+
+    const [quizSnap, keySnap] = await Promise.all([
+      adminDb.collection("quizzes").doc(quizId).get(),
+      adminDb.collection("quizKeys").doc(quizId).get(),
+    ]);
+    if (!quizSnap.exists) {
+      return res.status(404).json({ error: "Quiz not found" });
+    }
+    const quiz = quizSnap.data() as Omit<PublishedQuiz, "id">;
+    const questions = quiz.questions as Question[];
+    const index = questionIndex as number;
+    if (index < 0 || index >= questions.length || !isValidAnswer(answer, questions[index])) {
+      return res.status(400).json({ error: "Answer does not match the question" });
+    }
+
+    const submitted = await adminDb.collection("results").where("quizId", "==", quizId).where("studentId", "==", token.uid).get();
+    if (!practiceAvailable(quiz, submitted.size)) {
+      return res.status(403).json({ error: "Practice opens once the quiz closes or you've used all your attempts" });
+    }
+    if (quiz.batchIds?.length) {
+      const enrollments = await adminDb.collection("enrollments").where("studentId", "==", token.uid).get();
+      if (!isAssignedTo(quiz, enrollments.docs.map(d => (d.data() as Enrollment).batchId))) {
+        return res.status(403).json({ error: "This quiz is assigned to a batch you haven't joined" });
+      }
+    }
+    // Checking answers mid-exam would give the official attempt away
+    const open = await adminDb.collection("attempts")
+      .where("quizId", "==", quizId)
+      .where("studentId", "==", token.uid)
+      .where("status", "==", "in-progress")
+      .limit(1)
+      .get();
+    if (!open.empty) {
+      return res.status(403).json({ error: "Finish your attempt at this quiz before practising it" });
+    }
+
+    const key: QuestionKey = keySnap.exists
+      ? (keySnap.data() as AnswerKey).questions[index]
+      : toQuestionKey(questions[index]);
+    const correct = isAnswerCorrect(key, answer!);
+
+    const sessions = adminDb.collection("practiceSessions");
+    const sessionRef = sessionId ? sessions.doc(sessionId) : sessions.doc();
+    const session = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(sessionRef);
+      const now = Date.now();
+      const current = snap.exists ? snap.data() as Omit<PracticeSession, "id"> : {
+        studentId: token.uid,
+        quizId,
+        tries: questions.map(() => 0),
+        solved: questions.map(() => false),
+        firstTry: 0,
+        startedAt: now,
+        updatedAt: now,
+      };
+      if (current.studentId !== token.uid || current.quizId !== quizId) {
+        throw new Error("This practice session belongs to another quiz or student");
+      }
+      const updated: Omit<PracticeSession, "id"> = {
+        ...current,
+        tries: current.tries.map((t, i) => i === index ? t + 1 : t),
+        solved: current.solved.map((s, i) => i === index ? s || correct : s),
+        firstTry: current.firstTry + (correct && current.tries[index] === 0 ? 1 : 0),
+        updatedAt: now,
+      };
+      tx.set(sessionRef, updated);
+      return { id: sessionRef.id, ...updated };
+    });
+
+    const body: PracticeCheckResponse = { correct, ...(key.explanation ? { explanation: key.explanation } : {}), session };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Practice check error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not check the answer",
+    });
+  }
+}
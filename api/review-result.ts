@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { loadQuizVersion } from "./_lib/quizVersions.ts";
+import { servedKey } from "../grading.ts";
+import type { Result, ResultDetail, ReviewResultRequest, ReviewResultResponse } from "../types.ts";
+
+// Students can't read answer keys, so revisiting a past scorecard goes through here
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { resultId } = (req.body || {}) as Partial<ReviewResultRequest>;
+    if (typeof resultId !== "string" || !resultId) {
+      return res.status(400).json({ error: "Missing resultId" });
+    }
+
+    const [resultSnap, detailSnap] = await Promise.all([
+      adminDb.collection("results").doc(resultId).get(),
+      adminDb.collection("resultDetails").doc(resultId).get(),
+    ]);
+    const result = { id: resultSnap.id, ...resultSnap.data() } as Result;
+    if (!resultSnap.exists || result.studentId !== token.uid) {
+      return res.status(404).json({ error: "Result not found" });
+    }
+    if (!detailSnap.exists) {
+      return res.status(404).json({ error: "This attempt was recorded before answers were saved" });
+    }
+
+    // Served as the attempt saw it, even if the quiz has been edited since
+    const detail = detailSnap.data() as ResultDetail;
+    const versioned = await loadQuizVersion(result.quizId, detail.quizVersion);
+    if (!versioned) {
+      return res.status(404).json({ error: "Quiz not found" });
+    }
+
+    const body: ReviewResultResponse = { result, detail, quiz: versioned.quiz, key: servedKey(versioned.key, detail.served) };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Review error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not load the result",
+    });
+  }
+}
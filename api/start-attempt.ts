@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { randomInt } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { loadQuizVersion } from "./_lib/quizVersions.ts";
+import { isAssignedTo } from "../batches.ts";
+import { attemptsLeft, quizAvailability } from "../schedule.ts";
+import { shufflesAttempts } from "../shuffle.ts";
+import { attemptDeadline } from "../attempts.ts";
+import { nextAdaptiveQuestion, questionDifficulties } from "../adaptive.ts";
+import type { Attempt, Enrollment, PublishedQuiz, StartAttemptRequest, StartAttemptResponse } from "../types.ts";
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { quizId } = (req.body || {}) as Partial<StartAttemptRequest>;
+    if (typeof quizId !== "string" || !quizId) {
+      return res.status(400).json({ error: "Missing quizId" });
+    }
+
+    const quizRef = adminDb.collection("quizzes").doc(quizId);
+    const quizSnap = await quizRef.get();
+    if (!quizSnap.exists) {
+      return res.status(404).json({ error: "Quiz not found" });
+    }
+    const quiz = quizSnap.data() as Omit<PublishedQuiz, "id">;
+
+    // An unfinished attempt is resumed, even past its deadline, so it can still be submitted
+    const openQuery = adminDb.collection("attempts")
+      .where("quizId", "==", quizId)
+      .where("studentId", "==", token.uid)
+      .where("status", "==", "in-progress")
+      .limit(1);
+    // Resumed attempts carry on with the version they started on
+    const resume = async (attempt: Attempt) => {
+      const versioned = await loadQuizVersion(quizId, attempt.quizVersion);
+      if (!versioned) return res.status(404).json({ error: "Quiz not found" });
+      const body: StartAttemptResponse = { attempt, quiz: versioned.quiz, resumed: true, serverNow: Date.now() };
+      return res.status(200).json(body);
+    };
+    const open = await openQuery.get();
+    if (!open.empty) {
+      return resume({ id: open.docs[0].id, ...open.docs[0].data() } as Attempt);
+    }
+
+    const availability = quizAvailability(quiz);
+    if (availability !== "open") {
+      return res.status(403).json({ error: availability === "upcoming" ? "This quiz hasn't opened yet" : "This quiz has closed" });
+    }
+
+    if (quiz.batchIds?.length) {
+      const enrollments = await adminDb.collection("enrollments").where("studentId", "==", token.uid).get();
+      if (!isAssignedTo(quiz, enrollments.docs.map(d => (d.data() as Enrollment).batchId))) {
+        return res.status(403).json({ error: "This quiz is assigned to a batch you haven't joined" });
+      }
+    }
+
+    const now = Date.now();
+    const attemptRef = adminDb.collection("attempts").doc();
+    // Every start for this student and quiz writes the same doc, so concurrent starts run one
+    // after the other and the second sees the first one's attempt
+    const lockRef = adminDb.collection("attemptStarts").doc(`${quizId}_${token.uid}`);
+    const outcome = await adminDb.runTransaction(async (tx) => {
+      const [latest, , openNow, previous] = await Promise.all([
+        // Read again so the attempt records the version it was built from, even if the quiz was just edited
+        tx.get(quizRef),
+        tx.get(lockRef),
+        tx.get(openQuery),
+        quiz.maxAttempts !== undefined
+          ? tx.get(adminDb.collection("results").where("quizId", "==", quizId).where("studentId", "==", token.uid))
+          : null,
+      ]);
+      if (!openNow.empty) return { resumed: { id: openNow.docs[0].id, ...openNow.docs[0].data() } as Attempt };
+      if (!latest.exists) return { error: "Quiz not found", status: 404 };
+      const current = latest.data() as Omit<PublishedQuiz, "id">;
+      if (previous && attemptsLeft(current, previous.size) === 0) return { error: "No attempts left for this quiz", status: 403 };
+      // Adaptive attempts start on a question at the middle level
+      const first = current.adaptive ? nextAdaptiveQuestion(questionDifficulties(current), [], []) : null;
+      const attemptData: Omit<Attempt, "id"> = {
+        quizId,
+        studentId: token.uid,
+        startedAt: now,
+        deadline: attemptDeadline(now, current),
+        quizVersion: current.version ?? 1,
+        ...(shufflesAttempts(current) ? { seed: randomInt(2 ** 31) } : {}),
+        answers: {},
+        ...(first !== null ? { served: [first], responses: [] } : {}),
+        updatedAt: now,
+        status: "in-progress",
+      };
+      tx.set(lockRef, { quizId, studentId: token.uid, lastStartedAt: now });
+      tx.set(attemptRef, attemptData);
+      tx.update(quizRef, { starts: FieldValue.increment(1) });
+      return { attempt: { id: attemptRef.id, ...attemptData }, quiz: { id: quizId, ...current } };
+    });
+
+    if ("error" in outcome) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    if ("resumed" in outcome) return resume(outcome.resumed);
+    const body: StartAttemptResponse = { attempt: outcome.attempt, quiz: outcome.quiz, resumed: false, serverNow: now };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Start attempt error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not start the quiz",
+    });
+  }
+}
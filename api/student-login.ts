@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminAuth, adminDb } from "./_lib/firebaseAdmin.ts";
+import { verifyPin } from "./_lib/pin.ts";
+import { loginFailureId, loginLockoutMs, normalizeRollNumber } from "../students.ts";
+import type { StudentLoginRequest, StudentLoginResponse } from "../types.ts";
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { rollNumber, pin } = (req.body || {}) as Partial<StudentLoginRequest>;
+    if (typeof rollNumber !== "string" || !rollNumber.trim() || typeof pin !== "string" || !pin) {
+      return res.status(400).json({ error: "Missing rollNumber or pin" });
+    }
+
+    // Counted before the PIN is checked, so parallel guesses can't all get in ahead of a lockout
+    const failuresRef = adminDb.collection("loginFailures").doc(loginFailureId(rollNumber));
+    const lockedUntil = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(failuresRef);
+      const now = Date.now();
+      const until: number = snap.get("lockedUntil") ?? 0;
+      if (until > now) return until;
+      const failures: number = (snap.get("failures") ?? 0) + 1;
+      tx.set(failuresRef, { failures, lockedUntil: now + loginLockoutMs(failures) });
+      return 0;
+    });
+    if (lockedUntil) {
+      const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+      res.setHeader("Retry-After", String(minutes * 60));
+      return res.status(429).json({ error: `Too many incorrect PINs. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}, or ask your teacher to reset your PIN.` });
+    }
+
+    const matches = await adminDb.collection("students").where("rollNumber", "==", normalizeRollNumber(rollNumber)).limit(1).get();
+    const student = matches.docs[0];
+    const pinSnap = student ? await adminDb.collection("studentPins").doc(student.id).get() : null;
+    // Same message for unknown roll numbers and wrong PINs
+    if (!student || !pinSnap?.exists || !(await verifyPin(pin, pinSnap.get("hash")))) {
+      return res.status(401).json({ error: "Incorrect roll number or PIN" });
+    }
+
+    await failuresRef.delete();
+    const body: StudentLoginResponse = { token: await adminAuth.createCustomToken(student.id, { role: "student" }) };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Student login error:", err);
+    return res.status(500).json({
+      error: err.message || "Sign in failed",
+    });
+  }
+}
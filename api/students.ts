@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireTeacher } from "./_lib/auth.ts";
+import { hashPin } from "./_lib/pin.ts";
+import { PIN_PATTERN, loginFailureId, normalizeRollNumber } from "../students.ts";
+import type { SaveStudentRequest, SaveStudentResponse, Student } from "../types.ts";
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!(await requireTeacher(req, res))) return;
+
+  try {
+    const { studentId, rollNumber, name, pin } = (req.body || {}) as Partial<SaveStudentRequest>;
+    if (typeof pin !== "string" || !PIN_PATTERN.test(pin)) {
+      return res.status(400).json({ error: "PIN must be 4 to 6 digits" });
+    }
+
+    // Reset the PIN of an existing student
+    if (typeof studentId === "string" && studentId) {
+      const studentSnap = await adminDb.collection("students").doc(studentId).get();
+      if (!studentSnap.exists) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+      await adminDb.collection("studentPins").doc(studentId).set({ hash: await hashPin(pin) });
+      // A new PIN lifts any lockout from wrong guesses
+      await adminDb.collection("loginFailures").doc(loginFailureId(studentSnap.get("rollNumber"))).delete();
+      const body: SaveStudentResponse = { student: { id: studentSnap.id, ...studentSnap.data() } as Student };
+      return res.status(200).json(body);
+    }
+
+    const roll = typeof rollNumber === "string" ? normalizeRollNumber(rollNumber) : "";
+    const displayName = typeof name === "string" ? name.trim().slice(0, 80) : "";
+    if (!roll || !displayName) {
+      return res.status(400).json({ error: "Missing rollNumber or name" });
+    }
+
+    const studentRef = adminDb.collection("students").doc();
+    const hash = await hashPin(pin);
+    const data: Omit<Student, "id"> = { rollNumber: roll, name: displayName, createdAt: Date.now() };
+    // Checked inside a transaction so the same roll number can't be created twice at once
+    const created = await adminDb.runTransaction(async (tx) => {
+      const taken = await tx.get(adminDb.collection("students").where("rollNumber", "==", roll).limit(1));
+      if (!taken.empty) return false;
+      tx.set(studentRef, data);
+      tx.set(adminDb.collection("studentPins").doc(studentRef.id), { hash });
+      return true;
+    });
+    if (!created) {
+      return res.status(409).json({ error: `Roll number ${roll} is already taken` });
+    }
+
+    const body: SaveStudentResponse = { student: { id: studentRef.id, ...data } };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Save student error:", err);
+    return res.status(500).json({
+      error: err.message || "Could not save student",
+    });
+  }
+}
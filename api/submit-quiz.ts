@@ -0,0 +1,155 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "./_lib/firebaseAdmin.ts";
+import { requireStudent } from "./_lib/auth.ts";
+import { addToReviewDeck } from "./_lib/reviewDeck.ts";
+import { loadQuizVersion } from "./_lib/quizVersions.ts";
+import { isAnswerCorrect, isValidAnswer, scoreAnswers, servedKey } from "../grading.ts";
+import { ATTEMPT_GRACE_MS, attemptEndsAt, cleanTimeSpent, packAnswers, unpackAnswers } from "../attempts.ts";
+import { summarizeIntegrity } from "../proctoring.ts";
+import { abilityLevel, adaptiveResponses, estimateAbility, questionDifficulties } from "../adaptive.ts";
+import { questionTopics } from "../progress.ts";
+import type { Answer, Attempt, Question, Result, ResultDetail, Student, SubmitQuizRequest, SubmitQuizResponse } from "../types.ts";
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = await requireStudent(req, res);
+  if (!token) return;
+
+  try {
+    const { attemptId, answers, timeSpent } = (req.body || {}) as Partial<SubmitQuizRequest>;
+
+    if (typeof attemptId !== "string" || !attemptId || !Array.isArray(answers)) {
+      return res.status(400).json({ error: "Missing attemptId or answers" });
+    }
+
+    const attemptRef = adminDb.collection("attempts").doc(attemptId);
+    const attemptSnap = await attemptRef.get();
+    if (!attemptSnap.exists) {
+      return res.status(404).json({ error: "Attempt not found" });
+    }
+    const attempt = attemptSnap.data() as Omit<Attempt, "id">;
+    if (attempt.studentId !== token.uid) {
+      return res.status(403).json({ error: "This attempt belongs to another student" });
+    }
+
+    // Graded against the version the attempt started on, so edits to the quiz meanwhile don't affect it
+    const [studentSnap, versioned] = await Promise.all([
+      adminDb.collection("students").doc(token.uid).get(),
+      loadQuizVersion(attempt.quizId, attempt.quizVersion),
+    ]);
+    if (!versioned) {
+      return res.status(404).json({ error: "Quiz not found" });
+    }
+    const student = studentSnap.data() as Omit<Student, "id"> | undefined;
+    const { quiz, key } = versioned;
+    const questions = quiz.questions as Question[];
+
+    // Adaptive attempts are scored on the questions served, from the responses graded along the way
+    const served = quiz.adaptive ? attempt.served ?? [] : null;
+    const responses = attempt.responses ?? [];
+    const deadline = attemptEndsAt(attempt, quiz);
+    // After the deadline only the answers saved in time count. Adaptive answers only count
+    // for the questions /api/adaptive-next graded, whatever else the attempt holds.
+    const late = Date.now() > deadline + ATTEMPT_GRACE_MS;
+    const saved = unpackAnswers(attempt.answers, questions.length);
+    const gradedServed = served?.slice(0, responses.length);
+    const graded: Answer[] = gradedServed ? saved.map((a, i) => gradedServed.includes(i) ? a : null) : late ? saved : answers;
+    if (graded.length !== questions.length || !graded.every((a, i) => isValidAnswer(a, questions[i]))) {
+      return res.status(400).json({ error: "Answers do not match the quiz" });
+    }
+    // Timings are informational, so the last saved ones stand in when the request has none
+    const timings = cleanTimeSpent(timeSpent ?? attempt.timeSpent, questions.length, (deadline - attempt.startedAt) / 1000);
+    const correct = served
+      ? questions.map((_, i) => served.includes(i) && !!responses[served.indexOf(i)])
+      : key.map((k, i) => isAnswerCorrect(k, graded[i]));
+    const adaptive = served && (() => {
+      const ability = estimateAbility(adaptiveResponses(questionDifficulties(quiz), served, responses));
+      return { ability: Math.round(ability * 100) / 100, level: abilityLevel(ability) };
+    })();
+    const missed = served
+      ? served.filter((_, n) => !responses[n])
+      : correct.flatMap((isCorrect, i) => isCorrect ? [] : [i]);
+
+    // The result shares the attempt's ID, so a retried submission returns the first result
+    const resultRef = adminDb.collection("results").doc(attemptId);
+    const detailRef = adminDb.collection("resultDetails").doc(attemptId);
+    const { result, detail, created } = await adminDb.runTransaction(async (tx) => {
+      const [current, existing, existingDetail] = await Promise.all([tx.get(attemptRef), tx.get(resultRef), tx.get(detailRef)]);
+      const quizVersion = quiz.version ?? 1;
+      if (existing.exists || current.get("status") === "submitted") {
+        // Results from before details were stored fall back to the attempt's final answers
+        const fallback: ResultDetail = {
+          quizId: attempt.quizId,
+          studentId: token.uid,
+          answers: current.get("answers") ?? {},
+          timeSpent: timings,
+          quizVersion,
+        };
+        return {
+          result: { id: existing.id, ...existing.data() } as Result,
+          detail: existingDetail.exists ? existingDetail.data() as ResultDetail : fallback,
+          created: false,
+        };
+      }
+      const submittedAt = Date.now();
+      const resultData: Omit<Result, "id"> = {
+        quizId: attempt.quizId,
+        studentId: token.uid,
+        studentName: student?.name ?? "",
+        score: served ? responses.filter(Boolean).length : scoreAnswers(key, graded),
+        total: served ? served.length : questions.length,
+        ...(attempt.seed !== undefined ? { seed: attempt.seed } : {}),
+        // Read inside the transaction so events logged right before submitting are included
+        ...(quiz.proctored ? { integrity: summarizeIntegrity(current.get("events")) } : {}),
+        ...(adaptive ?? {}),
+        quizVersion,
+        // Capped at the deadline so the grace period for late submissions doesn't count
+        timeTaken: Math.round((Math.min(submittedAt, deadline) - attempt.startedAt) / 1000),
+        date: submittedAt,
+      };
+      const detailData: ResultDetail = {
+        quizId: attempt.quizId,
+        studentId: token.uid,
+        answers: packAnswers(graded),
+        timeSpent: timings,
+        correct,
+        ...(served ? { served } : {}),
+        // Saved so weak topics still add up after the quiz is edited
+        topics: Object.fromEntries(questions.flatMap((q, i) => !served || served.includes(i) ? [[String(i), questionTopics(q, quiz)]] : [])),
+        quizVersion,
+      };
+      tx.create(resultRef, resultData);
+      tx.create(detailRef, detailData);
+      tx.update(attemptRef, { status: "submitted", answers: packAnswers(graded), timeSpent: timings, updatedAt: Date.now() });
+      return { result: { id: resultRef.id, ...resultData }, detail: detailData, created: true };
+    });
+
+    // Best effort: a bank question may have been deleted since the quiz was published
+    if (created) {
+      await Promise.allSettled(questions.flatMap((q, i) => q.bankId && (!served || served.includes(i)) ? [
+        adminDb.collection("questionBank").doc(q.bankId).update({
+          "usage.attempts": FieldValue.increment(1),
+          "usage.correct": FieldValue.increment(correct[i] ? 1 : 0),
+        }),
+      ] : []));
+      // Also best effort; the result is already saved
+      await addToReviewDeck(token.uid, attempt.quizId, quiz, key, missed)
+        .catch(e => console.error("Review deck error:", e));
+    }
+
+    const body: SubmitQuizResponse = { result, detail, key: servedKey(key, detail.served ?? served ?? undefined) };
+    return res.status(200).json(body);
+  } catch (err: any) {
+    console.error("Grading error:", err);
+    return res.status(500).json({
+      error: err.message || "Grading failed",
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import type { Answer, Attempt, Quiz } from "./types.ts";
+
+// Saves and slow networks get this long past the deadline before the server stops taking answers
+export const ATTEMPT_GRACE_MS = 30 * 1000;
+
+// The quiz duration from the start, but never past the close time
+export const attemptDeadline = (startedAt: number, quiz: Pick<Quiz, "durationMinutes" | "closesAt">) =>
+  Math.min(startedAt + (quiz.durationMinutes || 10) * 60 * 1000, quiz.closesAt ?? Infinity);
+
+// Attempts started before deadlines were capped still end when the quiz closes
+export const attemptEndsAt = (attempt: Pick<Attempt, "deadline">, quiz: Pick<Quiz, "closesAt">) =>
+  Math.min(attempt.deadline, quiz.closesAt ?? Infinity);
+
+// Firestore can't store arrays inside arrays, so saved answers are keyed by question index
+export const packAnswers = (answers: Answer[]): Record<string, Answer> =>
+  Object.fromEntries(answers.map((answer, i) => [String(i), answer]));
+
+export const unpackAnswers = (packed: Record<string, Answer> = {}, count: number): Answer[] =>
+  Array.from({ length: count }, (_, i) => packed[String(i)] ?? null);
+
+// Whole seconds per question, each capped at the quiz length; anything malformed counts as zero
+export const cleanTimeSpent = (value: unknown, count: number, maxSeconds: number): number[] =>
+  Array.from({ length: count }, (_, i) => {
+    const seconds = Array.isArray(value) ? value[i] : 0;
+    return typeof seconds === "number" && Number.isFinite(seconds) ? Math.min(maxSeconds, Math.max(0, Math.round(seconds))) : 0;
+  });
@@ -0,0 +1,20 @@
+import type { Enrollment, Quiz } from "./types.ts";
+
+// Unambiguous characters only, so codes can be read aloud or off a whiteboard
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 6;
+
+export const generateJoinCode = () =>
+  Array.from(crypto.getRandomValues(new Uint32Array(JOIN_CODE_LENGTH)), n => CODE_ALPHABET[n % CODE_ALPHABET.length]).join("");
+
+export const normalizeJoinCode = (code: string) => code.replace(/\s+/g, "").toUpperCase();
+
+// Quizzes and notes without batches are for everyone
+export const isAssignedTo = (item: Pick<Quiz, "batchIds">, batchIds: string[]) =>
+  !item.batchIds || item.batchIds.length === 0 || item.batchIds.some(id => batchIds.includes(id));
+
+export const batchMembers = (enrollments: Pick<Enrollment, "batchId" | "studentId">[], batchId: string) =>
+  new Set(enrollments.filter(e => e.batchId === batchId).map(e => e.studentId));
+
+export const batchesOf = (enrollments: Pick<Enrollment, "batchId" | "studentId">[], studentId: string) =>
+  enrollments.filter(e => e.studentId === studentId).map(e => e.batchId);
@@ -0,0 +1,120 @@
+import { resultStudentId } from "./students.ts";
+import type { PublishedQuiz, Result, Student } from "./types.ts";
+
+export type GradeMode = "best" | "latest" | "average";
+
+export const GRADE_MODE_LABELS: Record<GradeMode, string> = {
+  best: "Best attempt",
+  latest: "Latest attempt",
+  average: "Average of attempts",
+};
+
+export interface GradebookFilter {
+  from?: number; // Inclusive, ms
+  to?: number; // Exclusive, ms
+  subject: string; // "All" or a quiz subject
+}
+
+// A spreadsheet cell; null leaves it empty
+export type Cell = string | number | null;
+
+type GradebookQuiz = Pick<PublishedQuiz, "id" | "title" | "subject" | "createdAt">;
+
+export const quizSubject = (quiz: Pick<PublishedQuiz, "subject">) => quiz.subject || "General";
+
+// Percentages, so quizzes of different lengths can share a row
+const percent = (r: Pick<Result, "score" | "total">) => r.total > 0 ? Math.round(r.score / r.total * 1000) / 10 : 0;
+
+const average = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10;
+
+export const filterResults = (results: Result[], quizzes: GradebookQuiz[], filter: GradebookFilter) => {
+  const subjects = new Map(quizzes.map(q => [q.id, quizSubject(q)]));
+  return results.filter(r =>
+    subjects.has(r.quizId) &&
+    (filter.subject === "All" || subjects.get(r.quizId) === filter.subject) &&
+    (filter.from === undefined || r.date >= filter.from) &&
+    (filter.to === undefined || r.date < filter.to));
+};
+
+export const gradeAttempts = (attempts: Result[], mode: GradeMode) => {
+  if (mode === "latest") return percent(attempts.reduce((a, b) => b.date > a.date ? b : a));
+  const scores = attempts.map(percent);
+  return mode === "best" ? Math.max(...scores) : average(scores);
+};
+
+// Local time, sortable as text and read as a date by spreadsheets
+export const formatTimestamp = (ms: number) => {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// One row per student and one column per quiz with results in range, oldest quiz first.
+// Every listed student gets a row; students with no attempt on a quiz get an empty cell.
+export const buildGradebook = (results: Result[], quizzes: GradebookQuiz[], students: Student[], filter: GradebookFilter, mode: GradeMode): Cell[][] => {
+  const inRange = filterResults(results, quizzes, filter);
+  const columns = quizzes.filter(q => inRange.some(r => r.quizId === q.id)).sort((a, b) => a.createdAt - b.createdAt);
+  const byStudent = new Map<string, Result[]>(students.map(s => [s.id, []]));
+  inRange.forEach(r => {
+    const id = resultStudentId(r);
+    byStudent.set(id, [...(byStudent.get(id) ?? []), r]);
+  });
+
+  const roster = new Map(students.map(s => [s.id, s]));
+  const rows = Array.from(byStudent, ([id, attempts]) => {
+    const student = roster.get(id);
+    const scores = columns.map(q => {
+      const onQuiz = attempts.filter(r => r.quizId === q.id);
+      return onQuiz.length ? gradeAttempts(onQuiz, mode) : null;
+    });
+    const taken = scores.filter((s): s is number => s !== null);
+    return [
+      student?.rollNumber ?? "",
+      // Results from before student profiles only carry the name
+      student?.name ?? attempts[0].studentName,
+      ...scores,
+      taken.length ? average(taken) : null,
+    ];
+  }).sort((a, b) => String(a[1]).localeCompare(String(b[1])));
+
+  return [["Roll Number", "Student", ...columns.map(q => q.title), "Overall %"], ...rows];
+};
+
+// Every attempt on one quiz, in the order they were submitted
+export const buildQuizResults = (quiz: Pick<PublishedQuiz, "id" | "proctored" | "adaptive">, results: Result[], students: Student[]): Cell[][] => {
+  const roster = new Map(students.map(s => [s.id, s]));
+  const counts = new Map<string, number>();
+  const rows = results
+    .filter(r => r.quizId === quiz.id)
+    .sort((a, b) => a.date - b.date)
+    .map(r => {
+      const id = resultStudentId(r);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+      return [
+        roster.get(id)?.rollNumber ?? "",
+        r.studentName,
+        counts.get(id)!,
+        formatTimestamp(r.date),
+        r.score,
+        r.total,
+        percent(r),
+        ...(quiz.adaptive ? [r.level ?? null] : []),
+        ...(quiz.proctored ? [r.integrity?.violations ?? null] : []),
+      ];
+    });
+  return [[
+    "Roll Number", "Student", "Attempt", "Submitted", "Score", "Total", "Percent",
+    ...(quiz.adaptive ? ["Level"] : []),
+    ...(quiz.proctored ? ["Violations"] : []),
+  ], ...rows];
+};
+
+export const toCsv = (rows: Cell[][]) => {
+  const cell = (value: Cell) => {
+    // Names typed by students could otherwise run as formulas
+    const text = value === null ? "" : typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  // The byte order mark makes Excel read the file as UTF-8
+  return "﻿" + rows.map(row => row.map(cell).join(",")).join("\r\n") + "\r\n";
+};
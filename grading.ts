@@ -0,0 +1,110 @@
+import type { Answer, AnswerKey, MatchQuestion, PublicQuestion, PublishedQuiz, Question, QuestionKey, QuestionType, Quiz } from "./types.ts";
+
+const KEY_FIELDS = ["correctIndex", "correctAnswer", "correctIndices", "acceptedAnswers", "caseSensitive", "correctMatches", "explanation"];
+
+// Firestore rejects undefined fields, so they are dropped along the way
+const pickFields = <T,>(q: Question, keep: (field: string) => boolean) =>
+  Object.fromEntries(Object.entries(q).filter(([field, value]) => value !== undefined && keep(field))) as T;
+
+export const questionType = (q: { type?: QuestionType }): QuestionType => q.type ?? "mcq";
+
+export const toPublicQuestion = (q: Question): PublicQuestion =>
+  pickFields<PublicQuestion>(q, field => !KEY_FIELDS.includes(field));
+
+export const toQuestionKey = (q: Question): QuestionKey =>
+  pickFields<QuestionKey>(q, field => field === "type" || (KEY_FIELDS.includes(field) && !(field === "explanation" && !q.explanation)));
+
+const inAuthoredOrder = (q: MatchQuestion) => q.correctMatches.every((c, i) => c === i);
+
+// Match choices are authored next to their prompts, so publish them in random order.
+// Shuffled choices never line up with their prompts, so re-publishing an edited quiz keeps their order.
+const shuffleMatchChoices = (q: Question): Question => {
+  if (q.type !== "match" || q.prompts.length === 0 || q.choices.length < 2 || !inAuthoredOrder(q)) return q;
+  let shuffled: MatchQuestion;
+  do {
+    const order = q.choices.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    shuffled = {
+      ...q,
+      choices: order.map(i => q.choices[i]),
+      correctMatches: q.correctMatches.map(c => order.indexOf(c)),
+    };
+  } while (inAuthoredOrder(shuffled));
+  return shuffled;
+};
+
+export const splitAnswerKey = (quiz: Quiz): { published: Omit<PublishedQuiz, "id">; key: AnswerKey } => {
+  const { id, questions, ...rest } = quiz;
+  const shuffledQuestions = questions.map(shuffleMatchChoices);
+  return {
+    published: { ...rest, questions: shuffledQuestions.map(toPublicQuestion) },
+    key: { questions: shuffledQuestions.map(toQuestionKey) },
+  };
+};
+
+export const quizVersionId = (quizId: string, version = 1) => `${quizId}_${version}`;
+
+// Adaptive attempts only get the key for the questions they were served; retakes draw from the rest of the pool
+export const servedKey = (key: QuestionKey[], served?: number[]): (QuestionKey | null)[] =>
+  served ? key.map((k, i) => served.includes(i) ? k : null) : key;
+
+export const withAnswerKey = (quiz: PublishedQuiz, key: (QuestionKey | null)[]): Quiz => ({
+  ...quiz,
+  questions: quiz.questions.map((q, i) => ({ ...q, ...key[i] } as Question)),
+});
+
+const isIndex = (value: unknown, length: number) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+export const MAX_TEXT_ANSWER_LENGTH = 200;
+
+// Checks that an answer has the shape its question type expects
+export const isValidAnswer = (answer: unknown, q: PublicQuestion): answer is Answer => {
+  if (answer === null) return true;
+  switch (q.type) {
+    case "true-false":
+      return typeof answer === "boolean";
+    case "multi-select":
+      return Array.isArray(answer) && answer.every(a => isIndex(a, q.options.length)) && new Set(answer).size === answer.length;
+    case "fill-blank":
+      return typeof answer === "string" && answer.length <= MAX_TEXT_ANSWER_LENGTH;
+    case "match":
+      return Array.isArray(answer) && answer.length === q.prompts.length && answer.every(a => a === -1 || isIndex(a, q.choices.length));
+    default:
+      return isIndex(answer, q.options.length);
+  }
+};
+
+export const isAnswered = (answer: Answer) => {
+  if (answer === null) return false;
+  if (typeof answer === "string") return answer.trim().length > 0;
+  if (Array.isArray(answer)) return answer.length > 0 && answer.every(a => a !== -1);
+  return true;
+};
+
+export const normalizeTextAnswer = (value: string, caseSensitive = false) => {
+  const collapsed = value.trim().replace(/\s+/g, " ");
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+export const isAnswerCorrect = (key: QuestionKey, answer: Answer) => {
+  if (answer === null) return false;
+  switch (key.type) {
+    case "true-false":
+      return answer === key.correctAnswer;
+    case "multi-select":
+      return Array.isArray(answer) && answer.length === key.correctIndices.length && key.correctIndices.every(i => answer.includes(i));
+    case "fill-blank":
+      return typeof answer === "string" && key.acceptedAnswers.some(accepted =>
+        normalizeTextAnswer(accepted, key.caseSensitive) === normalizeTextAnswer(answer, key.caseSensitive));
+    case "match":
+      return Array.isArray(answer) && key.correctMatches.every((c, i) => answer[i] === c);
+    default:
+      return answer === key.correctIndex;
+  }
+};
+
+export const scoreAnswers = (key: QuestionKey[], answers: Answer[]) =>
+  key.reduce((score, q, i) => score + (isAnswerCorrect(q, answers[i]) ? 1 : 0), 0);
@@ -1,132 +1,184 @@
 import React, { useState, useEffect, useRef } from "react";
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, Type } from "@google/genai";
-import { db } from "./firebase.ts";
-import { collection, addDoc, deleteDoc, doc, onSnapshot, query, orderBy, updateDoc, increment } from "firebase/firestore";
+import { db, auth, storage } from "./firebase.ts";
+import { collection, doc, getDoc, getDocs, setDoc, onSnapshot, query, orderBy, updateDoc, increment, writeBatch, where, arrayRemove, arrayUnion, runTransaction, deleteDoc } from "firebase/firestore";
+import { onAuthStateChanged, signInWithCustomToken, signInWithEmailAndPassword, signOut, User } from "firebase/auth";
+import { ref as storageRef, uploadBytesResumable, getBlob, deleteObject } from "firebase/storage";
+import { MAX_TEXT_ANSWER_LENGTH, isAnswerCorrect, isAnswered, questionType, quizVersionId, splitAnswerKey, toPublicQuestion, toQuestionKey, withAnswerKey } from "./grading.ts";
+import { formatIssue, validateAdaptive, validatePassages, validateProctoring, validateQuestion, validateQuestions, validateSchedule } from "./quizValidation.ts";
+import { batchMembers, batchesOf, generateJoinCode, isAssignedTo } from "./batches.ts";
+import { NOTE_MIME_TYPES, formatBytes, isLegacyNote, noteFileError, noteStoragePath } from "./notes.ts";
+import { knownCards, studyProgressId, validateStudyPack } from "./studyPacks.ts";
+import { LEADERBOARD_ATTEMPT_LABELS, LeaderboardTotal, combinedLeaderboard, isTopThree, quizLeaderboard, weeklyLeaderboard } from "./leaderboard.ts";
+import { Cell, GRADE_MODE_LABELS, GradeMode, buildGradebook, buildQuizResults, quizSubject, toCsv } from "./gradebook.ts";
+import { ImportedQuiz, QUIZ_FORMATS, QuizFormat, detectQuizFormat, exportQuiz, importQuiz } from "./quizFormats.ts";
+import { PIN_PATTERN, resultStudentId } from "./students.ts";
+import { attemptEndsAt, packAnswers, unpackAnswers } from "./attempts.ts";
+import { PROCTOR_EVENT_LABELS, countViolations, isViolation } from "./proctoring.ts";
+import { AttemptLayout, attemptLayout, identityLayout, permuteOptions, presentAttempt, toCanonicalAnswer, toDisplayAnswer } from "./shuffle.ts";
+import { Availability, attemptsLeft, countAttempts, practiceAvailable, quizAvailability } from "./schedule.ts";
+import { MIN_ATTEMPTS_FOR_DISCRIMINATION, analyzeItems } from "./itemAnalysis.ts";
+import { adaptiveLength, servedLayout } from "./adaptive.ts";
+import { ProgressPoint, averageSecondsPerQuestion, groupProgress, progressHistory, weakTopics } from "./progress.ts";
+import { ReviewQuality, dueCards, scheduleReview } from "./srs.ts";
+import type { AdaptiveNextRequest, AdaptiveNextResponse, Answer, AnswerKey, Attempt, BankQuestion, ProctorEvent, ProctorEventType, Batch, BatchCode, Enrollment, JoinBatchRequest, JoinBatchResponse, Difficulty, Flashcard, GenerateQuizRequest, LeaderboardAttempt, GenerateQuizResponse, GenerateStudyPackRequest, GenerateStudyPackResponse, Note, Passage, PracticeCheckRequest, PracticeCheckResponse, PracticeSession, PublicQuestion, PublishedQuiz, Question, QuestionKey, QuestionType, Quiz, QuizVersion, Result, ResultDetail, ReviewCard, ReviewResultRequest, ReviewResultResponse, SaveStudentRequest, StudyPack, StudyProgress, VocabularyEntry, SaveStudentResponse, StartAttemptRequest, StartAttemptResponse, Student, StudentLoginRequest, StudentLoginResponse, SubmitQuizRequest, SubmitQuizResponse } from "./types.ts";
 
 // --- Types ---
 
-type Difficulty = "Easy" | "Medium" | "Hard";
-
-interface Question {
-  text: string;
-  options: string[];
-  correctIndex: number;
-  explanation?: string;
-}
-
-interface Quiz {
-  id: string;
-  title: string;
-  subject?: string;
-  difficulty: Difficulty;
-  questions: Question[];
-  durationMinutes: number;
-  starts?: number;
-  createdAt: number;
-}
-
-interface Result {
-  id: string;
-  quizId: string;
-  studentName: string;
-  score: number;
-  total: number;
-  date: number;
-}
-
-interface Note {
-  id: string;
-  title: string;
-  description: string;
-  fileName: string;
-  fileData: string; // Base64
-  mimeType: string;
-  createdAt: number;
-}
-
-type View = "landing" | "teacher-dash" | "teacher-create" | "teacher-notes" | "teacher-leaderboard" | "student-dash" | "student-notes" | "student-quiz" | "student-result";
+type View = "landing" | "teacher-dash" | "teacher-create" | "teacher-notes" | "teacher-leaderboard" | "teacher-bank" | "teacher-batches" | "teacher-students" | "teacher-analysis" | "teacher-progress" | "student-dash" | "student-progress" | "student-review" | "student-practice" | "student-notes" | "student-study" | "teacher-study-pack" | "student-quiz" | "student-result";
 
 type ToastType = "success" | "error" | "info";
 
-// --- API & Helper Functions ---
+type Role = "teacher" | "student";
 
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const SCHEDULE_SECTIONS: { availability: Availability; title: string }[] = [
+  { availability: "open", title: "Open" },
+  { availability: "upcoming", title: "Upcoming" },
+  { availability: "closed", title: "Closed" },
+];
 
-const generateQuiz = async (prompt: string, numQuestions: number, difficulty: Difficulty, fileBase64: string | null = null, mimeType: string | null = null): Promise<Quiz | null> => {
-  try {
-    const parts: any[] = [];
-    const difficultyPrompt = `The difficulty level must be ${difficulty}.`;
-    
-    if (fileBase64 && mimeType) {
-      parts.push({
-        inlineData: {
-          data: fileBase64,
-          mimeType: mimeType,
-        },
-      });
-      parts.push({
-        text: `Generate a quiz based on this document. Create exactly ${numQuestions} multiple choice questions. ${difficultyPrompt}`,
-      });
-    } else {
-      parts.push({
-        text: `Generate a quiz based on the following topic/content: "${prompt}". Create exactly ${numQuestions} multiple choice questions. ${difficultyPrompt}`,
-      });
-    }
+// --- API & Helper Functions ---
 
-    const response = await genAI.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts },
-      config: {
-        systemInstruction: "You are an expert educator designed to create high-quality quizzes. For EVERY question, you MUST provide a clear, concise 'explanation' that describes exactly why the correct answer is right. This explanation is critical for student learning.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING, description: "A creative title for the quiz" },
-            subject: { type: Type.STRING, description: "The academic subject (e.g. Mathematics, History, Science)" },
-            questions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING, description: "The question text" },
-                  options: { 
-                    type: Type.ARRAY, 
-                    items: { type: Type.STRING },
-                    description: "4 possible answers"
-                  },
-                  correctIndex: { type: Type.INTEGER, description: "Index of the correct answer (0-3)" },
-                  explanation: { type: Type.STRING, description: "A helpful explanation of why the correct answer is the right choice." }
-                },
-                required: ["text", "options", "correctIndex", "explanation"]
-              }
-            }
-          },
-          required: ["title", "subject", "questions"]
-        }
-      }
-    });
+// Calls an api/ route, sending the teacher's ID token when someone is signed in
+const postApi = async <T,>(path: string, body: unknown): Promise<T> => {
+  const token = await auth.currentUser?.getIdToken();
+  const res = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data as T;
+};
 
-    if (response.text) {
-      const data = JSON.parse(response.text);
-      return {
-        id: crypto.randomUUID(),
-        title: data.title,
-        subject: data.subject || "General",
-        difficulty: difficulty,
-        questions: data.questions,
-        durationMinutes: 10, // Default duration
-        createdAt: Date.now(),
-      };
-    }
-    return null;
+// Gemini runs server-side in api/generate-quiz so the API key never reaches the browser
+const generateQuiz = async (prompt: string, numQuestions: number, difficulty: Difficulty, fileBase64: string | null = null, mimeType: string | null = null, withPassage = false, noteId: string | null = null): Promise<Quiz> => {
+  try {
+    const data = await postApi<GenerateQuizResponse>("/api/generate-quiz", {
+      prompt,
+      numQuestions,
+      difficulty,
+      ...(fileBase64 && mimeType ? { file: { data: fileBase64, mimeType } } : {}),
+      ...(noteId ? { noteId } : {}),
+      ...(withPassage ? { withPassage } : {}),
+    } satisfies GenerateQuizRequest);
+    return {
+      id: crypto.randomUUID(),
+      title: data.title,
+      subject: data.subject || "General",
+      difficulty: difficulty,
+      questions: data.questions,
+      ...(data.passages?.length ? { passages: data.passages } : {}),
+      durationMinutes: 10, // Default duration
+      ...(noteId ? { noteId } : {}),
+      createdAt: Date.now(),
+    };
   } catch (error) {
     console.error("Quiz generation failed:", error);
     throw error;
   }
 };
 
+// --- Question Type Helpers ---
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  "mcq": "Multiple Choice",
+  "true-false": "True / False",
+  "multi-select": "Multiple Correct",
+  "fill-blank": "Fill in the Blank",
+  "match": "Match the Following",
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const newQuestion = (type: QuestionType, text = "New Question", explanation = "Explanation for the correct answer."): Question => {
+  switch (type) {
+    case "true-false":
+      return { type, text, explanation, correctAnswer: true };
+    case "multi-select":
+      return { type, text, explanation, options: ["Option A", "Option B", "Option C", "Option D"], correctIndices: [0] };
+    case "fill-blank":
+      return { type, text: text.includes("___") ? text : `${text} ___`, explanation, acceptedAnswers: ["Answer"] };
+    case "match":
+      return { type, text, explanation, prompts: ["Item 1", "Item 2", "Item 3"], choices: ["Match 1", "Match 2", "Match 3"], correctMatches: [0, 1, 2] };
+    default:
+      return { type: "mcq", text, explanation, options: ["Option A", "Option B", "Option C", "Option D"], correctIndex: 0 };
+  }
+};
+
+// Initial player state: match answers hold one slot per prompt
+const emptyAnswer = (q: PublicQuestion): Answer => q.type === "match" ? q.prompts.map(() => -1) : null;
+
+const hasAnyAnswer = (answer: Answer) => {
+  if (answer === null) return false;
+  if (typeof answer === "string") return answer.trim().length > 0;
+  if (Array.isArray(answer)) return answer.some(a => a !== -1);
+  return true;
+};
+
+// A student's answer in words, for the review screen and scorecard
+const describeAnswer = (q: PublicQuestion, answer: Answer): string => {
+  if (!hasAnyAnswer(answer)) return "(Skipped)";
+  switch (q.type) {
+    case "true-false":
+      return answer ? "True" : "False";
+    case "multi-select":
+      return (answer as number[]).map(i => q.options[i]).join(", ");
+    case "fill-blank":
+      return (answer as string).trim();
+    case "match":
+      return q.prompts.map((p, i) => `${p} – ${(answer as number[])[i] >= 0 ? q.choices[(answer as number[])[i]] : "?"}`).join("; ");
+    default:
+      return q.options[answer as number];
+  }
+};
+
+const describeCorrect = (q: Question): string => {
+  switch (q.type) {
+    case "true-false":
+      return q.correctAnswer ? "True" : "False";
+    case "multi-select":
+      return q.correctIndices.map(i => q.options[i]).join(", ");
+    case "fill-blank":
+      return q.acceptedAnswers.join(" / ");
+    case "match":
+      return q.prompts.map((p, i) => `${p} – ${q.choices[q.correctMatches[i]]}`).join("; ");
+    default:
+      return q.options[q.correctIndex];
+  }
+};
+
+// Compact form for the printed answer key, matching the letters used in downloadPDF
+const answerKeyLabel = (q: Question): string => {
+  switch (q.type) {
+    case "multi-select":
+      return [...q.correctIndices].sort((a, b) => a - b).map(letter).join(", ");
+    case "match":
+      return q.correctMatches.map((c, i) => `${i + 1}-${letter(c)}`).join(", ");
+    case "true-false":
+    case "fill-blank":
+      return describeCorrect(q);
+    default:
+      return letter(q.correctIndex);
+  }
+};
+
+// Consecutive questions on the same passage are shown and printed as one group
+const groupByPassage = <Q extends { passageId?: string },>(questions: Q[], passages: Passage[] = []) => {
+  const groups: { passage?: Passage; indices: number[] }[] = [];
+  questions.forEach((q, i) => {
+    const passage = passages.find(p => p.id === q.passageId);
+    const last = groups[groups.length - 1];
+    if (last && last.passage === passage) last.indices.push(i);
+    else groups.push({ passage, indices: [i] });
+  });
+  return groups;
+};
+
 const downloadPDF = (quiz: Quiz) => {
   // @ts-ignore
   const { jsPDF } = window.jspdf;
@@ -148,27 +200,88 @@ const downloadPDF = (quiz: Quiz) => {
   doc.setFontSize(12);
   doc.setTextColor(0, 0, 0);
   let y = 45;
+  const groupStarts = new Map(groupByPassage(quiz.questions, quiz.passages).map(g => [g.indices[0], g]));
   
   quiz.questions.forEach((q, i) => {
     if (y > 270) {
       doc.addPage();
       y = 20;
     }
+
+    const group = groupStarts.get(i);
+    if (group?.passage) {
+      const { passage, indices } = group;
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(10);
+      doc.setTextColor(100, 100, 100);
+      doc.text(`Read the ${passage.kind === "poem" ? "poem" : "passage"} and answer questions ${indices[0] + 1}-${indices[indices.length - 1] + 1}.`, 20, y);
+      y += 7;
+      doc.setTextColor(0, 0, 0);
+      if (passage.title) {
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(12);
+        doc.text(passage.title, 20, y);
+        y += 7;
+      }
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(11);
+      doc.splitTextToSize(passage.text, 165).forEach((line: string) => {
+        if (y > 280) {
+          doc.addPage();
+          y = 20;
+        }
+        doc.text(line, 25, y);
+        y += 5.5;
+      });
+      doc.setFontSize(12);
+      y += 8;
+    }
     
     doc.setFont("helvetica", "bold");
     const questionLines = doc.splitTextToSize(`${i + 1}. ${q.text}`, 170);
     doc.text(questionLines, 20, y);
     y += (questionLines.length * 6);
     doc.setFont("helvetica", "normal");
-    
-    q.options.forEach((opt, optIndex) => {
+
+    const printLine = (text: string, x = 20) => {
       if (y > 280) {
         doc.addPage();
         y = 20;
       }
-      doc.text(`   ${String.fromCharCode(65 + optIndex)}. ${opt}`, 20, y);
+      doc.text(text, x, y);
       y += 6;
-    });
+    };
+
+    switch (q.type) {
+      case "true-false":
+        printLine("   ( ) True      ( ) False");
+        break;
+      case "multi-select":
+        doc.setFont("helvetica", "italic");
+        printLine("   (Select all that apply)");
+        doc.setFont("helvetica", "normal");
+        q.options.forEach((opt, optIndex) => printLine(`   [ ] ${letter(optIndex)}. ${opt}`));
+        break;
+      case "fill-blank":
+        printLine("   Answer: ______________________________");
+        break;
+      case "match": {
+        // Prompts on the left, lettered choices on the right
+        const rows = Math.max(q.prompts.length, q.choices.length);
+        for (let r = 0; r < rows; r++) {
+          if (y > 280) {
+            doc.addPage();
+            y = 20;
+          }
+          if (r < q.prompts.length) doc.text(`   ${r + 1}. ${q.prompts[r]}  ____`, 20, y);
+          if (r < q.choices.length) doc.text(`${letter(r)}. ${q.choices[r]}`, 115, y);
+          y += 6;
+        }
+        break;
+      }
+      default:
+        q.options.forEach((opt, optIndex) => printLine(`   ${letter(optIndex)}. ${opt}`));
+    }
     y += 6; // Spacing between questions
   });
 
@@ -186,7 +299,9 @@ const downloadPDF = (quiz: Quiz) => {
     }
     doc.setFont("helvetica", "bold");
     doc.setTextColor(79, 70, 229); // Indigo
-    doc.text(`${i + 1}. Correct: ${String.fromCharCode(65 + q.correctIndex)}`, 20, y);
+    const keyLines = doc.splitTextToSize(`${i + 1}. Correct: ${answerKeyLabel(q)}`, 170);
+    doc.text(keyLines, 20, y);
+    y += (keyLines.length - 1) * 5;
     doc.setTextColor(0, 0, 0);
     doc.setFont("helvetica", "normal");
     
@@ -275,7 +390,9 @@ const downloadCertificate = (studentName: string, quizTitle: string, score: numb
   doc.save(`${studentName}_certificate.pdf`);
 };
 
-const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: number[], score: number, total: number) => {
+// Answers and timings are canonical; the layout puts questions and options back in the order the student saw
+const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: Answer[], result: Pick<Result, "score" | "total" | "date">, layout: AttemptLayout = identityLayout(quiz.questions.length), timeSpent?: number[]) => {
+  const { score, total } = result;
   // @ts-ignore
   const { jsPDF } = window.jspdf;
   const doc = new jsPDF();
@@ -295,7 +412,7 @@ const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: number
   doc.setFontSize(12);
   doc.text(`Student: ${studentName}`, 20, 55);
   doc.text(`Quiz: ${quiz.title}`, 20, 62);
-  doc.text(`Date: ${new Date().toLocaleDateString()}`, 150, 55);
+  doc.text(`Date: ${new Date(result.date).toLocaleDateString()}`, 150, 55);
   
   const pct = Math.round((score/total)*100);
   doc.setFontSize(16);
@@ -310,10 +427,10 @@ const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: number
   let y = 85;
   doc.setFontSize(11);
 
-  quiz.questions.forEach((q, i) => {
-    const userAnswerIndex = answers[i];
-    const isCorrect = userAnswerIndex === q.correctIndex;
-    const isSkipped = userAnswerIndex === -1;
+  const shown = presentAttempt(quiz.questions, answers, layout);
+  shown.questions.forEach((q, i) => {
+    const isCorrect = isAnswerCorrect(q, shown.answers[i]);
+    const seconds = timeSpent?.[layout.questionOrder[i]];
 
     // Page break check
     if (y > 250) {
@@ -330,17 +447,20 @@ const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: number
 
     // User Answer
     doc.setFont("helvetica", "normal");
-    const userAnsText = isSkipped ? "(Skipped)" : q.options[userAnswerIndex];
+    const userAnsLines = doc.splitTextToSize(`${isCorrect ? "✔" : "✘"} Your Answer: ${describeAnswer(q, shown.answers[i])}${seconds !== undefined ? `  (${formatSeconds(seconds)})` : ""}`, 165);
     
     if (isCorrect) {
       doc.setTextColor(22, 163, 74); // Green
-      doc.text(`✔ Your Answer: ${userAnsText}`, 25, y);
+      doc.text(userAnsLines, 25, y);
+      y += (userAnsLines.length - 1) * 6;
     } else {
       doc.setTextColor(220, 38, 38); // Red
-      doc.text(`✘ Your Answer: ${userAnsText}`, 25, y);
-      y += 6;
+      doc.text(userAnsLines, 25, y);
+      y += userAnsLines.length * 6;
       doc.setTextColor(22, 163, 74); // Green
-      doc.text(`✔ Correct Answer: ${q.options[q.correctIndex]}`, 25, y);
+      const correctLines = doc.splitTextToSize(`✔ Correct Answer: ${describeCorrect(q)}`, 165);
+      doc.text(correctLines, 25, y);
+      y += (correctLines.length - 1) * 6;
     }
     doc.setTextColor(0, 0, 0); // Reset black
     y += 8;
@@ -369,38 +489,141 @@ const downloadDetailedReport = (studentName: string, quiz: Quiz, answers: number
   doc.save(`${studentName}_scorecard.pdf`);
 };
 
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+
+const formatCountdown = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.ceil(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (ms < 60000) return `${Math.max(0, Math.ceil(ms / 1000))}s`;
+  return `${minutes}m`;
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toDateTimeInput = (ms?: number) => {
+  if (ms === undefined) return "";
+  const d = new Date(ms);
+  return new Date(ms - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeInput = (value: string) => value ? new Date(value).getTime() : undefined;
+
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
   const s = seconds % 60;
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-const openBase64PDF = (base64Data: string, mimeType: string) => {
-  const byteCharacters = atob(base64Data);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
-  }
-  const byteArray = new Uint8Array(byteNumbers);
-  const blob = new Blob([byteArray], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  window.open(url, '_blank');
+// Note files are fetched only when opened, so the notes listing stays metadata-only
+const loadNoteFile = async (note: Note): Promise<Blob> => {
+  if (note.storagePath) return getBlob(storageRef(storage, note.storagePath));
+  const bytes = Uint8Array.from(atob(note.fileData ?? ""), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: note.mimeType });
 };
 
-const downloadBase64File = (base64Data: string, fileName: string, mimeType: string) => {
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
-  link.href = `data:${mimeType};base64,${base64Data}`;
+  link.href = url;
   link.download = fileName;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+type SheetFormat = "csv" | "xlsx";
+
+const downloadSheet = (rows: Cell[][], fileName: string, format: SheetFormat, sheetName: string) => {
+  if (format === "csv") {
+    saveBlob(new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }), `${fileName}.csv`);
+    return;
+  }
+  // @ts-ignore
+  const XLSX = window.XLSX;
+  const book = XLSX.utils.book_new();
+  // Excel limits sheet names to 31 characters and rejects some punctuation
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), sheetName.replace(/[\[\]:*?\/\\]/g, " ").slice(0, 31));
+  XLSX.writeFile(book, `${fileName}.${format}`);
+};
+
+// --- Auth Helpers ---
+
+// Roles are custom claims set with `npm run grant-teacher -- <email>`
+const getRole = async (user: User | null): Promise<Role | null> => {
+    if (!user) return null;
+    const token = await user.getIdTokenResult();
+    const role = token.claims.role;
+    return role === "teacher" || role === "student" ? role : null;
+};
+
+const authErrorMessage = (code: string) => {
+    switch (code) {
+        case "auth/invalid-credential":
+        case "auth/invalid-email":
+        case "auth/user-not-found":
+        case "auth/wrong-password":
+            return "Incorrect email or password.";
+        case "auth/too-many-requests":
+            return "Too many attempts. Please try again later.";
+        default:
+            return "Sign-in failed. Please try again.";
+    }
+};
+
+// --- Question Bank Helpers ---
+
+const parseTags = (value: string) =>
+    Array.from(new Set(value.split(",").map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+const toBankQuestion = (q: Question, subject: string, difficulty: Difficulty, tags: string[], passage?: Passage): Omit<BankQuestion, "id"> => {
+    // Firestore rejects undefined fields
+    const fields = Object.fromEntries(Object.entries(q).filter(([field, value]) => value !== undefined && field !== "bankId"));
+    return {
+        ...fields as Question,
+        ...(passage ? { passage } : {}),
+        subject,
+        tags,
+        difficulty,
+        usage: { timesUsed: 0, attempts: 0, correct: 0 },
+        createdAt: Date.now(),
+    };
+};
+
+const fromBankQuestion = ({ id, passage, subject, tags, difficulty, usage, createdAt, ...q }: BankQuestion): Question =>
+    ({ ...q, bankId: id, ...(tags.length ? { tags } : {}), difficulty } as Question);
+
+const shuffled = <T,>(items: T[]) => {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+};
+
+// Draws up to `count` random questions per tag, never picking the same question twice
+const drawByTag = (pool: BankQuestion[], counts: Record<string, number>) => {
+    const picked: BankQuestion[] = [];
+    const shortfalls: string[] = [];
+    Object.entries(counts).forEach(([tag, count]) => {
+        if (count <= 0) return;
+        const available = shuffled(pool.filter(q => q.tags.includes(tag) && !picked.includes(q)));
+        picked.push(...available.slice(0, count));
+        if (available.length < count) shortfalls.push(`${tag} (${available.length}/${count})`);
+    });
+    return { questions: picked, shortfalls };
 };
 
 // --- Gamification Helpers ---
 
-const calculateStreak = (studentName: string, allResults: Result[]) => {
-    if (!studentName) return 0;
-    const myResults = allResults.filter(r => r.studentName.toLowerCase() === studentName.toLowerCase());
+const calculateStreak = (studentId: string, allResults: Result[]) => {
+    if (!studentId) return 0;
+    const myResults = allResults.filter(r => resultStudentId(r) === studentId);
     
     const dates = Array.from(new Set(myResults.map(r => {
         const d = new Date(r.date);
@@ -433,27 +656,8 @@ const calculateStreak = (studentName: string, allResults: Result[]) => {
     return streak;
 };
 
-const hasGrammarMaster = (studentName: string, allResults: Result[]) => {
-    return allResults.some(r => r.studentName.toLowerCase() === studentName.toLowerCase() && r.score === r.total);
-};
-
-const isTop3 = (studentName: string, quizId: string, allResults: Result[]) => {
-    const quizResults = allResults.filter(r => r.quizId === quizId);
-    quizResults.sort((a, b) => a.date - b.date);
-    
-    const uniqueResults: Result[] = [];
-    const seen = new Set<string>();
-    quizResults.forEach(r => {
-        const key = `${r.studentName.trim().toLowerCase()}-${r.score}`;
-        if (!seen.has(key)) {
-            seen.add(key);
-            uniqueResults.push(r);
-        }
-    });
-    
-    const sorted = uniqueResults.sort((a, b) => b.score - a.score);
-    const index = sorted.findIndex(r => r.studentName.toLowerCase() === studentName.toLowerCase());
-    return index !== -1 && index < 3;
+const hasGrammarMaster = (studentId: string, allResults: Result[]) => {
+    return allResults.some(r => resultStudentId(r) === studentId && r.score === r.total);
 };
 
 // --- Components ---
@@ -495,8 +699,8 @@ const Button = ({ onClick, children, className = "", variant = "primary", disabl
   );
 };
 
-const Card = ({ children, className = "", hover = false }: any) => (
-  <div className={`bg-white rounded-xl shadow-[0_2px_8px_rgba(0,0,0,0.04)] border border-slate-100 p-6 ${hover ? 'hover:shadow-md hover:border-indigo-100 transition-all duration-300' : ''} ${className}`}>
+const Card = ({ children, className = "", hover = false, id }: any) => (
+  <div id={id} className={`bg-white rounded-xl shadow-[0_2px_8px_rgba(0,0,0,0.04)] border border-slate-100 p-6 ${hover ? 'hover:shadow-md hover:border-indigo-100 transition-all duration-300' : ''} ${className}`}>
     {children}
   </div>
 );
@@ -528,17 +732,346 @@ const StatCard = ({ title, value, icon, color }: any) => (
     </div>
 );
 
+// Answer-key editor for one question in the review screen; onChange receives a partial update
+const QuestionAnswerEditor = ({ question: q, name, onChange }: { question: Question, name: string, onChange: (patch: Partial<Question>) => void }) => {
+    const rowClass = (correct: boolean) => `flex items-center gap-2 p-2 rounded-lg border transition-colors ${correct ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-200'}`;
+    const inputClass = "flex-1 bg-transparent border-none focus:ring-0 text-sm text-slate-700 placeholder-slate-400";
+    const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-2";
+    const linkClass = "text-indigo-500 hover:text-indigo-700 text-xs font-medium mt-3";
+    const replaceAt = (list: string[], index: number, value: string) => list.map((item, j) => j === index ? value : item);
+
+    switch (q.type) {
+        case "true-false":
+            return (
+                <div>
+                    <label className={labelClass}>Correct Answer</label>
+                    <div className="grid grid-cols-2 gap-3">
+                        {[true, false].map(value => (
+                            <label key={String(value)} className={`${rowClass(q.correctAnswer === value)} cursor-pointer`}>
+                                <input type="radio" name={name} checked={q.correctAnswer === value} onChange={() => onChange({ correctAnswer: value })} className="w-4 h-4 text-emerald-600 focus:ring-emerald-500 border-gray-300" />
+                                <span className="text-sm text-slate-700">{value ? "True" : "False"}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            );
+        case "multi-select":
+            return (
+                <div>
+                    <label className={labelClass}>Options (Tick Every Correct Answer)</label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {q.options.map((opt, optIdx) => (
+                            <div key={optIdx} className={rowClass(q.correctIndices.includes(optIdx))}>
+                                <input
+                                    type="checkbox"
+                                    checked={q.correctIndices.includes(optIdx)}
+                                    onChange={() => onChange({ correctIndices: q.correctIndices.includes(optIdx) ? q.correctIndices.filter(c => c !== optIdx) : [...q.correctIndices, optIdx].sort((a, b) => a - b) })}
+                                    className="w-4 h-4 text-emerald-600 focus:ring-emerald-500 border-gray-300 rounded"
+                                />
+                                <span className="text-xs font-bold text-slate-400 w-4">{letter(optIdx)}</span>
+                                <input type="text" value={opt} onChange={(e) => onChange({ options: replaceAt(q.options, optIdx, e.target.value) })} className={inputClass} />
+                                {q.options.length > 2 && (
+                                    <button onClick={() => onChange({ options: q.options.filter((_, j) => j !== optIdx), correctIndices: q.correctIndices.filter(c => c !== optIdx).map(c => c > optIdx ? c - 1 : c) })} className="text-slate-300 hover:text-red-500 text-xs px-1">✕</button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => onChange({ options: [...q.options, `Option ${letter(q.options.length)}`] })} className={linkClass}>+ Add Option</button>
+                </div>
+            );
+        case "fill-blank":
+            return (
+                <div>
+                    <label className={labelClass}>Accepted Answers (One Per Line)</label>
+                    <textarea
+                        value={q.acceptedAnswers.join("\n")}
+                        onChange={(e) => onChange({ acceptedAnswers: e.target.value.split("\n") })}
+                        onBlur={() => onChange({ acceptedAnswers: q.acceptedAnswers.map(a => a.trim()).filter(Boolean) })}
+                        className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm text-slate-700"
+                        rows={3}
+                    />
+                    <div className="flex justify-between items-center mt-2 text-xs text-slate-400">
+                        <span>Mark the blank in the question text with ___</span>
+                        <label className="flex items-center gap-2 text-slate-600">
+                            <input type="checkbox" checked={!!q.caseSensitive} onChange={(e) => onChange({ caseSensitive: e.target.checked })} className="w-4 h-4 rounded border-gray-300" />
+                            Case-sensitive
+                        </label>
+                    </div>
+                </div>
+            );
+        case "match":
+            return (
+                <div>
+                    <label className={labelClass}>Pairs (Choices Are Shuffled for Students)</label>
+                    <div className="space-y-2">
+                        {q.prompts.map((prompt, row) => (
+                            <div key={row} className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2">
+                                <input type="text" value={prompt} onChange={(e) => onChange({ prompts: replaceAt(q.prompts, row, e.target.value) })} className="p-2 border border-slate-200 rounded-lg text-sm text-slate-700" />
+                                <span className="text-slate-400">→</span>
+                                <input type="text" value={q.choices[q.correctMatches[row]] ?? ""} onChange={(e) => onChange({ choices: replaceAt(q.choices, q.correctMatches[row], e.target.value) })} className="p-2 border border-emerald-200 bg-emerald-50 rounded-lg text-sm text-slate-700" />
+                                <button
+                                    disabled={q.prompts.length <= 2}
+                                    onClick={() => {
+                                        const removed = q.correctMatches[row];
+                                        onChange({
+                                            prompts: q.prompts.filter((_, j) => j !== row),
+                                            choices: q.choices.filter((_, j) => j !== removed),
+                                            correctMatches: q.correctMatches.filter((_, j) => j !== row).map(c => c > removed ? c - 1 : c),
+                                        });
+                                    }}
+                                    className="text-slate-300 hover:text-red-500 text-xs px-1 disabled:opacity-30"
+                                >✕</button>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => onChange({ prompts: [...q.prompts, `Item ${q.prompts.length + 1}`], choices: [...q.choices, `Match ${q.prompts.length + 1}`], correctMatches: [...q.correctMatches, q.choices.length] })} className={linkClass}>+ Add Pair</button>
+                </div>
+            );
+        default:
+            return (
+                <div>
+                    <label className={labelClass}>Options (Select Correct Answer)</label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {q.options.map((opt, optIdx) => (
+                        <div key={optIdx} className={rowClass(optIdx === q.correctIndex)}>
+                            <input 
+                                type="radio" 
+                                name={name} 
+                                checked={optIdx === q.correctIndex} 
+                                onChange={() => onChange({ correctIndex: optIdx })}
+                                className="w-4 h-4 text-emerald-600 focus:ring-emerald-500 border-gray-300"
+                            />
+                            <span className="text-xs font-bold text-slate-400 w-4">{letter(optIdx)}</span>
+                            <input 
+                                type="text" 
+                                value={opt} 
+                                onChange={(e) => onChange({ options: replaceAt(q.options, optIdx, e.target.value) })}
+                                className={inputClass}
+                            />
+                        </div>
+                    ))}
+                    </div>
+                </div>
+            );
+    }
+};
+
+// Renders the answer controls for one question in the quiz player
+const QuestionInput = ({ question: q, answer, onAnswer }: { question: PublicQuestion, answer: Answer, onAnswer: (answer: Answer) => void }) => {
+    const choiceButton = (key: string | number, label: string, text: string, selected: boolean, onClick: () => void, square = false) => (
+        <button key={key} onClick={onClick}
+            className={`w-full text-left p-4 rounded-lg border transition-all duration-200 flex items-center ${selected ? "bg-indigo-50 border-indigo-500 ring-1 ring-indigo-500" : "bg-white border-slate-200 hover:bg-slate-50 hover:border-slate-300"}`}
+        >
+            <span className={`w-6 h-6 ${square ? 'rounded' : 'rounded-full'} border flex items-center justify-center mr-3 text-xs ${selected ? "bg-indigo-500 border-indigo-500 text-white" : "border-slate-300 text-slate-400"}`}>
+                {label}
+            </span>
+            <span className={`text-sm ${selected ? "text-indigo-900 font-medium" : "text-slate-600"}`}>{text}</span>
+        </button>
+    );
+
+    switch (q.type) {
+        case "true-false":
+            return (
+                <div className="grid grid-cols-2 gap-3">
+                    {[true, false].map(value => choiceButton(String(value), value ? "T" : "F", value ? "True" : "False", answer === value, () => onAnswer(value)))}
+                </div>
+            );
+        case "multi-select": {
+            const selected = (answer as number[] | null) || [];
+            return (
+                <div className="space-y-3">
+                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Select all that apply</p>
+                    {q.options.map((opt, optIdx) => choiceButton(optIdx, letter(optIdx), opt, selected.includes(optIdx), () => {
+                        const next = selected.includes(optIdx) ? selected.filter(i => i !== optIdx) : [...selected, optIdx].sort((a, b) => a - b);
+                        onAnswer(next.length > 0 ? next : null);
+                    }, true))}
+                </div>
+            );
+        }
+        case "fill-blank":
+            return (
+                <input
+                    type="text"
+                    value={(answer as string | null) || ""}
+                    onChange={(e) => onAnswer(e.target.value ? e.target.value : null)}
+                    maxLength={MAX_TEXT_ANSWER_LENGTH}
+                    placeholder="Type your answer..."
+                    className="w-full p-4 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-slate-800"
+                />
+            );
+        case "match": {
+            const matches = answer as number[];
+            return (
+                <div className="space-y-3">
+                    {q.prompts.map((prompt, row) => (
+                        <div key={row} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center p-3 rounded-lg border border-slate-200">
+                            <span className="text-sm font-medium text-slate-700">{row + 1}. {prompt}</span>
+                            <select
+                                value={matches[row]}
+                                onChange={(e) => onAnswer(matches.map((m, j) => j === row ? parseInt(e.target.value) : m))}
+                                className={`w-full p-2 border rounded-lg text-sm ${matches[row] >= 0 ? 'border-indigo-500 bg-indigo-50 text-indigo-900' : 'border-slate-200 bg-white text-slate-500'}`}
+                            >
+                                <option value={-1}>Choose a match...</option>
+                                {q.choices.map((choice, c) => <option key={c} value={c}>{letter(c)}. {choice}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        default:
+            return (
+                <div className="space-y-3">
+                    {q.options.map((opt, optIdx) => choiceButton(optIdx, letter(optIdx), opt, answer === optIdx, () => onAnswer(optIdx)))}
+                </div>
+            );
+    }
+};
+
+// Toggles the batches a quiz or note is assigned to; none selected means everyone
+const BatchPicker = ({ batches, selected = [], onChange }: { batches: Batch[], selected?: string[], onChange: (batchIds: string[]) => void }) => {
+  const chip = (active: boolean) => `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${active ? "bg-indigo-600 border-indigo-600 text-white" : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"}`;
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button type="button" onClick={() => onChange([])} className={chip(selected.length === 0)}>Everyone</button>
+      {batches.map(b => (
+        <button key={b.id} type="button" onClick={() => onChange(selected.includes(b.id) ? selected.filter(id => id !== b.id) : [...selected, b.id])} className={chip(selected.includes(b.id))}>{b.name}</button>
+      ))}
+    </div>
+  );
+};
+
+// Shows a reading passage or poem alongside the questions that refer to it
+const PassageCard = ({ passage, className = "" }: { passage: Passage, className?: string }) => (
+  <div className={`bg-amber-50/60 rounded-xl border border-amber-100 p-6 ${className}`}>
+    <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-1">{passage.kind === "poem" ? "Poem" : "Passage"}</p>
+    {passage.title && <h3 className="font-bold text-slate-800 mb-3">{passage.title}</h3>}
+    <p className={`text-slate-700 leading-relaxed whitespace-pre-line ${passage.kind === "poem" ? "italic" : ""}`}>{passage.text}</p>
+  </div>
+);
+
+const SERIES_COLORS = ["#4f46e5", "#10b981", "#f59e0b", "#ef4444", "#0ea5e9", "#8b5cf6"];
+
+// Score percentages over time, one line per series on a shared date axis
+const TrendChart = ({ series }: { series: { label: string, points: ProgressPoint[] }[] }) => {
+  const dates = series.flatMap(s => s.points.map(p => p.result.date));
+  const first = Math.min(...dates), span = Math.max(...dates) - first || 1;
+  const x = (date: number) => 30 + ((date - first) / span) * 560;
+  const y = (percent: number) => 190 - percent * 1.7;
+  return (
+    <div>
+      <svg viewBox="0 0 600 200" className="w-full h-48">
+        {[0, 50, 100].map(v => (
+          <g key={v}>
+            <line x1={30} x2={590} y1={y(v)} y2={y(v)} stroke="#e2e8f0" strokeDasharray={v === 0 ? undefined : "4 4"} />
+            <text x={0} y={y(v) + 4} fontSize="10" fill="#94a3b8">{v}%</text>
+          </g>
+        ))}
+        {series.map((s, i) => (
+          <g key={s.label} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} fill={SERIES_COLORS[i % SERIES_COLORS.length]}>
+            <polyline fill="none" strokeWidth="2" points={s.points.map(p => `${x(p.result.date)},${y(p.percent)}`).join(" ")} />
+            {s.points.map(p => <circle key={p.result.id} cx={x(p.result.date)} cy={y(p.percent)} r="3"><title>{`${p.quiz?.title ?? "Removed quiz"}: ${p.percent}%`}</title></circle>)}
+          </g>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600">
+          {series.map((s, i) => <span key={s.label} className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-full" style={{ background: SERIES_COLORS[i % SERIES_COLORS.length] }}></span>{s.label}</span>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Per-question review of a graded attempt; everything is in the order the student saw
+const AttemptReview = ({ questions, answers, timeSpent, label = "You" }: { questions: Question[], answers: Answer[], timeSpent?: number[], label?: string }) => (
+  <div className="space-y-6">
+    {questions.map((q, i) => {
+      const isCorrect = isAnswerCorrect(q, answers[i]);
+      return (
+        <Card key={i} className={`!p-5 border-l-4 ${isCorrect ? 'border-l-emerald-500' : 'border-l-red-500'}`}>
+          <div className="flex justify-between gap-4 mb-3">
+            <p className="font-medium text-slate-800">{i+1}. {q.text}</p>
+            {timeSpent && <span className="flex-shrink-0 text-xs font-mono text-slate-400">{formatSeconds(timeSpent[i] ?? 0)}</span>}
+          </div>
+          <div className="text-sm space-y-2">
+              <p className={isCorrect ? "text-emerald-700 font-medium" : "text-red-600 line-through"}>
+                 {hasAnyAnswer(answers[i]) ? `${label}: ${describeAnswer(q, answers[i])}` : "Skipped"}
+              </p>
+              {!isCorrect && <p className="text-emerald-700 font-medium">Correct: {describeCorrect(q)}</p>}
+          </div>
+        </Card>
+      );
+    })}
+  </div>
+);
+
+// Standings across quizzes, this week or in one subject; shared by both dashboards
+const Rankings = ({ results, quizzes, now, highlightId, limit }: { results: Result[], quizzes: PublishedQuiz[], now: number, highlightId?: string, limit?: number }) => {
+  const [scope, setScope] = useState("week"); // "week" or a subject
+  const subjects = Array.from(new Set(quizzes.map(quizSubject))).sort();
+  const entries: LeaderboardTotal[] = scope === "week"
+    ? weeklyLeaderboard(results, quizzes, now)
+    : combinedLeaderboard(results, quizzes.filter(q => quizSubject(q) === scope));
+  const shown = limit ? entries.slice(0, limit) : entries;
+  const ownRank = highlightId ? entries.findIndex(e => e.studentId === highlightId) : -1;
+  return (
+    <Card className="!p-0 overflow-hidden">
+      <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800">Rankings</h3>
+        <select value={scope} onChange={(e) => setScope(e.target.value)} className="p-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600 outline-none">
+          <option value="week">This week</option>
+          {subjects.map(subject => <option key={subject} value={subject}>{subject}</option>)}
+        </select>
+      </div>
+      {shown.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-slate-400 text-center italic">No attempts {scope === "week" ? "this week" : "yet"}.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-100">
+            <tr>
+              <th className="px-6 py-3 text-left font-semibold text-slate-500">Rank</th>
+              <th className="px-6 py-3 text-left font-semibold text-slate-500">Student</th>
+              <th className="px-6 py-3 text-right font-semibold text-slate-500">Quizzes</th>
+              <th className="px-6 py-3 text-right font-semibold text-slate-500">Time</th>
+              <th className="px-6 py-3 text-right font-semibold text-slate-500">Points</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {shown.map((e, i) => (
+              <tr key={e.studentId} className={e.studentId === highlightId ? "bg-indigo-50/50" : ""}>
+                <td className="px-6 py-3 font-mono text-slate-400">#{i + 1}</td>
+                <td className="px-6 py-3 font-medium text-slate-700">{e.studentName}</td>
+                <td className="px-6 py-3 text-right text-slate-500">{e.quizzes}</td>
+                <td className="px-6 py-3 text-right font-mono text-xs text-slate-400">{e.timeTaken !== undefined ? formatSeconds(e.timeTaken) : "—"}</td>
+                <td className="px-6 py-3 text-right font-bold text-indigo-600">{e.score}/{e.total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {ownRank >= shown.length && <p className="px-6 py-3 border-t border-slate-100 text-sm text-slate-500">You are <strong>#{ownRank + 1}</strong> of {entries.length}.</p>}
+      <p className="px-6 py-3 border-t border-slate-100 text-xs text-slate-400">Each quiz counts once per student, using the attempt its leaderboard ranks. Ties go to the faster time.</p>
+    </Card>
+  );
+};
+
 const App = () => {
   const [view, setView] = useState<View>("landing");
-  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizzes, setQuizzes] = useState<PublishedQuiz[]>([]);
   const [results, setResults] = useState<Result[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [toast, setToast] = useState<{message: string, type: ToastType} | null>(null);
 
   // Auth State
-  const [showAuth, setShowAuth] = useState(false);
+  const [showAuth, setShowAuth] = useState<Role | null>(null);
+  const [authEmail, setAuthEmail] = useState("");
   const [authPassword, setAuthPassword] = useState("");
+  const [rollNumber, setRollNumber] = useState("");
+  const [pin, setPin] = useState("");
+  const [isSigningIn, setIsSigningIn] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [authReady, setAuthReady] = useState(false);
 
   // Creation State
   const [isGenerating, setIsGenerating] = useState(false);
@@ -547,20 +1080,96 @@ const App = () => {
   const [numQuestions, setNumQuestions] = useState(5);
   const [difficulty, setDifficulty] = useState<Difficulty>("Medium");
   const [file, setFile] = useState<File | null>(null);
+  const [withPassage, setWithPassage] = useState(false);
+  const [quizImport, setQuizImport] = useState<{ fileName: string, format: QuizFormat, result: ImportedQuiz } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // Student State
-  const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
-  const [studentName, setStudentName] = useState("");
-  const [answers, setAnswers] = useState<number[]>([]);
+  const [activeQuiz, setActiveQuiz] = useState<PublishedQuiz | null>(null);
+  const [answerKey, setAnswerKey] = useState<(QuestionKey | null)[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [student, setStudent] = useState<Student | null>(null);
+  const studentId = student?.id ?? "";
+  const studentName = student?.name ?? "";
+  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [openAttempts, setOpenAttempts] = useState<Attempt[]>([]);
+  const [clockOffset, setClockOffset] = useState(0); // Server time minus client time
+  const [isStarting, setIsStarting] = useState(false);
+  const proctorEvents = useRef<ProctorEvent[]>([]);
+  const [violationCount, setViolationCount] = useState(0);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const questionTimes = useRef<number[]>([]); // Milliseconds per question, canonical order
+  const activeQuestion = useRef<{ index: number, since: number | null } | null>(null); // since is null while the tab is hidden
   const [currentResult, setCurrentResult] = useState<Result | null>(null);
+
+  // Practice mode
+  const [practiceQuiz, setPracticeQuiz] = useState<PublishedQuiz | null>(null);
+  const [practiceSession, setPracticeSession] = useState<PracticeSession | null>(null);
+  const [practiceAnswers, setPracticeAnswers] = useState<Answer[]>([]);
+  const [practiceFeedback, setPracticeFeedback] = useState<Record<number, { correct: boolean, explanation?: string }>>({});
+  const [checkingIndex, setCheckingIndex] = useState<number | null>(null);
+  const [practiceSessions, setPracticeSessions] = useState<PracticeSession[]>([]);
+
+  // Review deck
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<string[]>([]); // Card IDs due when the session started
+  const [reviewPos, setReviewPos] = useState(0);
+  const [reviewAnswer, setReviewAnswer] = useState<Answer>(null);
+  const [reviewChecked, setReviewChecked] = useState(false);
+  const [resultDetail, setResultDetail] = useState<ResultDetail | null>(null);
   const [timeLeft, setTimeLeft] = useState(0);
+  const [now, setNow] = useState(Date.now());
   const [filterSubject, setFilterSubject] = useState("All");
   
   // Notes
   const [noteTitle, setNoteTitle] = useState("");
   const [noteFile, setNoteFile] = useState<File | null>(null);
+  const [noteBatchIds, setNoteBatchIds] = useState<string[]>([]);
+  const [noteUploadProgress, setNoteUploadProgress] = useState<number | null>(null);
+  const [loadingNoteId, setLoadingNoteId] = useState<string | null>(null);
+  const [quizNote, setQuizNote] = useState<Note | null>(null);
+
+  // Study packs
+  const [studyPacks, setStudyPacks] = useState<StudyPack[]>([]);
+  const [studyPackDraft, setStudyPackDraft] = useState<StudyPack | null>(null);
+  const [generatingPackFor, setGeneratingPackFor] = useState<string | null>(null); // Note ID
+  const [studyProgress, setStudyProgress] = useState<StudyProgress[]>([]);
+  const [studyNoteId, setStudyNoteId] = useState<string | null>(null);
+  const [studyQueue, setStudyQueue] = useState<string[]>([]); // Flashcard IDs for this round
+  const [studyPos, setStudyPos] = useState(0);
+  const [studyFlipped, setStudyFlipped] = useState(false);
+
+  // Student Roster
+  const [roster, setRoster] = useState<Student[]>([]);
+  const [newStudent, setNewStudent] = useState({ rollNumber: "", name: "", pin: "" });
+  const [isSavingStudent, setIsSavingStudent] = useState(false);
+
+  // Batches
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [batchCodes, setBatchCodes] = useState<Record<string, string>>({}); // batchId -> join code
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [batchFilter, setBatchFilter] = useState("All");
+  const [newBatchName, setNewBatchName] = useState("");
+  const [joinCode, setJoinCode] = useState("");
+  const [isJoining, setIsJoining] = useState(false);
   
-  const [leaderboardQuiz, setLeaderboardQuiz] = useState<Quiz | null>(null);
+  const [leaderboardQuiz, setLeaderboardQuiz] = useState<PublishedQuiz | null>(null);
+  const [gradebook, setGradebook] = useState<{ mode: GradeMode, from: string, to: string, subject: string } | null>(null); // Dates as yyyy-mm-dd
+  const [eventLog, setEventLog] = useState<{ result: Result, events: ProctorEvent[] } | null>(null);
+  const [reviewedAttempt, setReviewedAttempt] = useState<{ result: Result, quiz: Quiz, detail: ResultDetail } | null>(null);
+  const [progressStudent, setProgressStudent] = useState<{ id: string, name: string, back: View } | null>(null);
+  const [progressDetails, setProgressDetails] = useState<ResultDetail[] | null>(null);
+  const [progressGrouping, setProgressGrouping] = useState<"subject" | "difficulty">("subject");
+  const [analysis, setAnalysis] = useState<{ quiz: Quiz, details: (ResultDetail & { id: string })[] } | null>(null);
+
+  // Question Bank
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [bankTags, setBankTags] = useState("");
+  const [bankFilter, setBankFilter] = useState({ subject: "All", difficulty: "All", tag: "All", search: "" });
+  const [selectedBankIds, setSelectedBankIds] = useState<string[]>([]);
+  const [drawCounts, setDrawCounts] = useState<Record<string, number>>({});
 
   const showToast = (message: string, type: ToastType = "info") => {
       setToast({ message, type });
@@ -569,45 +1178,257 @@ const App = () => {
   useEffect(() => {
     const qQuery = query(collection(db, "quizzes"), orderBy("createdAt", "desc"));
     const unsubscribeQuizzes = onSnapshot(qQuery, (snapshot) => {
-      setQuizzes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Quiz)));
+      setQuizzes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PublishedQuiz)));
     });
     const nQuery = query(collection(db, "notes"), orderBy("createdAt", "desc"));
     const unsubscribeNotes = onSnapshot(nQuery, (snapshot) => {
       setNotes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Note)));
     });
+    const unsubscribePacks = onSnapshot(collection(db, "studyPacks"), (snapshot) => {
+      setStudyPacks(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StudyPack)));
+    });
     const rQuery = query(collection(db, "results"), orderBy("date", "desc"));
     const unsubscribeResults = onSnapshot(rQuery, (snapshot) => {
       setResults(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Result)));
     });
-    return () => { unsubscribeQuizzes(); unsubscribeNotes(); unsubscribeResults(); };
+    const baQuery = query(collection(db, "batches"), orderBy("createdAt", "asc"));
+    const unsubscribeBatches = onSnapshot(baQuery, (snapshot) => {
+      setBatches(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Batch)));
+    });
+    const unsubscribeEnrollments = onSnapshot(collection(db, "enrollments"), (snapshot) => {
+      setEnrollments(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Enrollment)));
+    });
+    return () => { unsubscribeQuizzes(); unsubscribeNotes(); unsubscribePacks(); unsubscribeResults(); unsubscribeBatches(); unsubscribeEnrollments(); };
   }, []);
 
   useEffect(() => {
-    const savedName = localStorage.getItem("studentName");
-    if(savedName) setStudentName(savedName);
+    // Firebase persists the session locally, so this also restores it after a reload
+    return onAuthStateChanged(auth, async (user) => {
+      const role = await getRole(user);
+      setIsAuthenticated(role === "teacher");
+      // Student sessions come from /api/student-login, so the uid is the student ID
+      const profile = role === "student" && user ? await getDoc(doc(db, "students", user.uid)) : null;
+      setStudent(profile?.exists() ? { id: profile.id, ...profile.data() } as Student : null);
+      setAuthReady(true);
+    });
   }, []);
 
   useEffect(() => {
-    if (view === "student-quiz" && timeLeft > 0) {
-      const timer = setInterval(() => setTimeLeft(prev => prev <= 1 ? 0 : prev - 1), 1000);
-      return () => clearInterval(timer);
-    } else if (view === "student-quiz" && timeLeft === 0 && activeQuiz) {
-      submitQuiz();
+    // The bank holds answer keys, so only teachers can subscribe to it
+    if (!isAuthenticated) {
+      setBank([]);
+      return;
+    }
+    const bQuery = query(collection(db, "questionBank"), orderBy("createdAt", "desc"));
+    return onSnapshot(bQuery, (snapshot) => {
+      setBank(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as BankQuestion)));
+    });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setRoster([]);
+      return;
+    }
+    const sQuery = query(collection(db, "students"), orderBy("rollNumber", "asc"));
+    return onSnapshot(sQuery, (snapshot) => {
+      setRoster(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Student)));
+    });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    // Join codes are teacher-only; students redeem them through /api/join-batch
+    if (!isAuthenticated) {
+      setBatchCodes({});
+      return;
+    }
+    return onSnapshot(collection(db, "batchCodes"), (snapshot) => {
+      setBatchCodes(Object.fromEntries(snapshot.docs.map(doc => [(doc.data() as BatchCode).batchId, doc.id])));
+    });
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (authReady && !isAuthenticated && view.startsWith("teacher-")) setView("landing");
+  }, [authReady, isAuthenticated, view]);
+
+  useEffect(() => {
+    if (authReady && !student && view.startsWith("student-")) setView("landing");
+  }, [authReady, student, view]);
+
+  // Keeps the dashboard countdowns, Upcoming/Open/Closed grouping and weekly rankings current
+  useEffect(() => {
+    if (view !== "student-dash" && view !== "teacher-dash") return;
+    setNow(Date.now());
+    // The teacher dashboard has no countdowns, only the week to follow
+    const timer = setInterval(() => setNow(Date.now()), view === "student-dash" ? 1000 : 60 * 1000);
+    return () => clearInterval(timer);
+  }, [view]);
+
+  useEffect(() => {
+    // Lets the dashboard offer to resume attempts left unfinished on any device
+    if (!studentId) {
+      setOpenAttempts([]);
+      return;
+    }
+    const aQuery = query(collection(db, "attempts"), where("studentId", "==", studentId), where("status", "==", "in-progress"));
+    return onSnapshot(aQuery, (snapshot) => {
+      setOpenAttempts(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Attempt)));
+    });
+  }, [studentId]);
+
+  useEffect(() => {
+    if (!studentId) {
+      setPracticeSessions([]);
+      return;
+    }
+    const pQuery = query(collection(db, "practiceSessions"), where("studentId", "==", studentId));
+    return onSnapshot(pQuery, (snapshot) => {
+      setPracticeSessions(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PracticeSession)));
+    });
+  }, [studentId]);
+
+  useEffect(() => {
+    if (!studentId) {
+      setReviewCards([]);
+      return;
+    }
+    const cQuery = query(collection(db, "reviewCards"), where("studentId", "==", studentId));
+    return onSnapshot(cQuery, (snapshot) => {
+      setReviewCards(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ReviewCard)));
+    });
+  }, [studentId]);
+
+  useEffect(() => {
+    if (!studentId) {
+      setStudyProgress([]);
+      return;
     }
+    const pQuery = query(collection(db, "studyProgress"), where("studentId", "==", studentId));
+    return onSnapshot(pQuery, (snapshot) => {
+      setStudyProgress(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StudyProgress)));
+    });
+  }, [studentId]);
+
+  useEffect(() => {
+    if (view !== "student-quiz" || !attempt) return;
+    // Counted down against the saved deadline, so reloads and throttled tabs can't stretch the time
+    const timer = setInterval(() => setTimeLeft(secondsUntil(activeQuiz ? attemptEndsAt(attempt, activeQuiz) : attempt.deadline)), 1000);
+    return () => clearInterval(timer);
+  }, [view, attempt, activeQuiz, clockOffset]);
+
+  useEffect(() => {
+    if (view === "student-quiz" && timeLeft === 0 && activeQuiz) submitQuiz();
   }, [timeLeft, view]);
 
-  const handleAuth = () => {
-    if (authPassword === "admin") {
+  useEffect(() => {
+    // Adaptive answers are saved by the server as each one is graded
+    if (view !== "student-quiz" || !attempt || activeQuiz?.adaptive) return;
+    const timer = setTimeout(() => saveAnswers(attempt.id, answers), 500);
+    return () => clearTimeout(timer);
+  }, [answers]);
+
+  useEffect(() => {
+    if (view !== "student-quiz" && document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  }, [view]);
+
+  useEffect(() => {
+    if (view !== "student-quiz" || !attempt) return;
+    // Time in another tab isn't charged to the question left open
+    const onVisibility = () => {
+      flushQuestionTime();
+      if (activeQuestion.current) activeQuestion.current.since = document.hidden ? null : Date.now();
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, [view, attempt]);
+
+  useEffect(() => {
+    if (view !== "student-quiz" || !attempt || !activeQuiz?.proctored) return;
+    const onVisibility = () => recordEvent(document.hidden ? "hidden" : "visible");
+    const onBlur = () => recordEvent("blur");
+    const onFocus = () => recordEvent("focus");
+    const onFullscreen = () => {
+      setIsFullscreen(!!document.fullscreenElement);
+      if (!document.fullscreenElement) recordEvent("fullscreen-exit");
+    };
+    const onClipboard = (e: ClipboardEvent) => {
+      e.preventDefault();
+      recordEvent(e.type as ProctorEventType);
+    };
+    setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("blur", onBlur);
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("fullscreenchange", onFullscreen);
+    (["copy", "cut", "paste"] as const).forEach(type => document.addEventListener(type, onClipboard));
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("blur", onBlur);
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("fullscreenchange", onFullscreen);
+      (["copy", "cut", "paste"] as const).forEach(type => document.removeEventListener(type, onClipboard));
+    };
+  }, [view, attempt, answers]);
+
+  const handleAuth = async () => {
+    if (!authEmail || !authPassword) {
+      showToast("Please enter your email and password.", "error");
+      return;
+    }
+    setIsSigningIn(true);
+    try {
+      const { user } = await signInWithEmailAndPassword(auth, authEmail.trim(), authPassword);
+      if (await getRole(user) !== "teacher") {
+        await signOut(auth);
+        showToast("This account does not have teacher access.", "error");
+        return;
+      }
       setIsAuthenticated(true);
       setView("teacher-dash");
-      setShowAuth(false);
+      setShowAuth(null);
+      setAuthEmail("");
       setAuthPassword("");
       showToast("Welcome, Teacher!", "success");
-    } else {
-      showToast("Incorrect password. Hint: admin", "error");
+    } catch (e: any) {
+      showToast(authErrorMessage(e.code), "error");
+    } finally {
+      setIsSigningIn(false);
     }
   };
 
+  const handleStudentLogin = async () => {
+    if (!rollNumber.trim() || !pin) {
+      showToast("Please enter your roll number and PIN.", "error");
+      return;
+    }
+    setIsSigningIn(true);
+    try {
+      const { token } = await postApi<StudentLoginResponse>("/api/student-login", { rollNumber, pin } satisfies StudentLoginRequest);
+      const { user } = await signInWithCustomToken(auth, token);
+      const profile = await getDoc(doc(db, "students", user.uid));
+      const signedIn = { id: profile.id, ...profile.data() } as Student;
+      setStudent(signedIn);
+      setView("student-dash");
+      setShowAuth(null);
+      setRollNumber("");
+      setPin("");
+      showToast(`Welcome, ${signedIn.name}!`, "success");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut(auth);
+    setIsAuthenticated(false);
+    setStudent(null);
+    setGeneratedQuiz(null);
+    setView("landing");
+    showToast("Signed out.", "info");
+  };
+
   const handleCreateQuiz = async () => {
     if (!isAuthenticated) return;
     if (!prompt && !file) {
@@ -626,8 +1447,7 @@ const App = () => {
         });
         mimeType = file.type;
       }
-      const quiz = await generateQuiz(prompt, numQuestions, difficulty, fileBase64, mimeType);
-      if (quiz) setGeneratedQuiz(quiz);
+      setGeneratedQuiz(await generateQuiz(prompt, numQuestions, difficulty, fileBase64, mimeType, withPassage));
     } catch (e: any) {
       showToast("Failed to generate quiz: " + e.message, "error");
     } finally {
@@ -635,24 +1455,104 @@ const App = () => {
     }
   };
 
-  const updateQuizField = (field: keyof Quiz, value: any) => {
-    if (!generatedQuiz) return;
-    setGeneratedQuiz({ ...generatedQuiz, [field]: value });
-  };
-
-  const updateQuestion = (index: number, field: keyof Question, value: any) => {
-    if (!generatedQuiz) return;
-    const questions = [...generatedQuiz.questions];
-    questions[index] = { ...questions[index], [field]: value };
+  // The server reads the stored file, so nothing is downloaded and re-uploaded here
+  const generateFromNote = async () => {
+    if (!isAuthenticated || !quizNote) return;
+    setIsGenerating(true);
+    try {
+      const quiz = await generateQuiz("", numQuestions, difficulty, null, null, withPassage, quizNote.id);
+      setGeneratedQuiz({ ...quiz, ...(quizNote.batchIds?.length ? { batchIds: quizNote.batchIds } : {}) });
+      setQuizNote(null);
+      setView("teacher-create");
+    } catch (e: any) {
+      showToast("Failed to generate quiz: " + e.message, "error");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // An existing pack opens as is; otherwise Gemini drafts one for review
+  const openStudyPack = async (note: Note, regenerate = false) => {
+    if (!isAuthenticated || generatingPackFor) return;
+    const existing = studyPacks.find(p => p.noteId === note.id);
+    if (existing && !regenerate) {
+      setStudyPackDraft(existing);
+      setView("teacher-study-pack");
+      return;
+    }
+    setGeneratingPackFor(note.id);
+    try {
+      const draft = await postApi<GenerateStudyPackResponse>("/api/generate-study-pack", { noteId: note.id } satisfies GenerateStudyPackRequest);
+      setStudyPackDraft({ id: note.id, noteId: note.id, ...draft, updatedAt: Date.now() });
+      setView("teacher-study-pack");
+    } catch (e: any) {
+      showToast("Failed to generate study pack: " + e.message, "error");
+    } finally {
+      setGeneratingPackFor(null);
+    }
+  };
+
+  const updateStudyPack = (patch: Partial<StudyPack>) => {
+    if (studyPackDraft) setStudyPackDraft({ ...studyPackDraft, ...patch });
+  };
+
+  const saveStudyPack = async () => {
+    if (!isAuthenticated || !studyPackDraft) return;
+    const issues = validateStudyPack(studyPackDraft);
+    if (issues.length > 0) {
+      showToast(issues[0], "error");
+      return;
+    }
+    const { id, ...pack } = studyPackDraft;
+    try {
+      await setDoc(doc(db, "studyPacks", pack.noteId), {
+        ...pack,
+        summary: pack.summary.map(p => p.trim()),
+        vocabulary: pack.vocabulary.map(v => ({ term: v.term.trim(), meaning: v.meaning.trim() })),
+        flashcards: pack.flashcards.map(c => ({ ...c, front: c.front.trim(), back: c.back.trim() })),
+        updatedAt: Date.now(),
+      });
+      setStudyPackDraft(null);
+      setView("teacher-notes");
+      showToast("Study pack saved. Students can study it now.", "success");
+    } catch (e: any) {
+      showToast("Save failed: " + e.message, "error");
+    }
+  };
+
+  const deleteStudyPack = async () => {
+    if (!isAuthenticated || !studyPackDraft || !confirm("Delete this study pack? Students lose access to it.")) return;
+    try {
+      await deleteDoc(doc(db, "studyPacks", studyPackDraft.noteId));
+      setStudyPackDraft(null);
+      setView("teacher-notes");
+      showToast("Study pack deleted.", "success");
+    } catch (e: any) {
+      showToast("Delete failed: " + e.message, "error");
+    }
+  };
+
+  const updateQuizField = (field: keyof Quiz, value: any) => {
+    if (!generatedQuiz) return;
+    // Cleared optional fields are dropped, as Firestore rejects undefined values
+    const { [field]: _previous, ...rest } = generatedQuiz;
+    setGeneratedQuiz(value === undefined ? rest as Quiz : { ...generatedQuiz, [field]: value });
+  };
+
+  const updateQuestion = (index: number, patch: Partial<Question>) => {
+    if (!generatedQuiz) return;
+    const questions = [...generatedQuiz.questions];
+    questions[index] = { ...questions[index], ...patch } as Question;
     setGeneratedQuiz({ ...generatedQuiz, questions });
   };
 
-  const updateOption = (qIndex: number, optIndex: number, value: string) => {
+  const changeQuestionType = (index: number, type: QuestionType) => {
     if (!generatedQuiz) return;
+    const q = generatedQuiz.questions[index];
+    if (questionType(q) === type) return;
+    // A different type is a different question, so it no longer points at its bank entry
     const questions = [...generatedQuiz.questions];
-    const options = [...questions[qIndex].options];
-    options[optIndex] = value;
-    questions[qIndex] = { ...questions[qIndex], options };
+    questions[index] = newQuestion(type, q.text, q.explanation || "");
     setGeneratedQuiz({ ...generatedQuiz, questions });
   };
 
@@ -666,15 +1566,32 @@ const App = () => {
     setGeneratedQuiz({ ...generatedQuiz, questions });
   };
 
+  const addPassage = () => {
+    if (!generatedQuiz) return;
+    const passage: Passage = { id: crypto.randomUUID(), title: "Unseen Passage", text: "", kind: "prose" };
+    setGeneratedQuiz({ ...generatedQuiz, passages: [...(generatedQuiz.passages || []), passage] });
+  };
+
+  const updatePassage = (id: string, patch: Partial<Passage>) => {
+    if (!generatedQuiz) return;
+    const passages = (generatedQuiz.passages || []).map(p => p.id === id ? { ...p, ...patch } : p);
+    setGeneratedQuiz({ ...generatedQuiz, passages });
+  };
+
+  const removePassage = (id: string) => {
+    if (!generatedQuiz) return;
+    const passages = (generatedQuiz.passages || []).filter(p => p.id !== id);
+    const questions = generatedQuiz.questions.map(q => {
+      if (q.passageId !== id) return q;
+      const { passageId, ...rest } = q;
+      return rest as Question;
+    });
+    setGeneratedQuiz({ ...generatedQuiz, passages, questions });
+  };
+
   const addQuestion = () => {
     if (!generatedQuiz) return;
-    const newQuestion: Question = {
-      text: "New Question",
-      options: ["Option A", "Option B", "Option C", "Option D"],
-      correctIndex: 0,
-      explanation: "Explanation for the correct answer."
-    };
-    setGeneratedQuiz({ ...generatedQuiz, questions: [...generatedQuiz.questions, newQuestion] });
+    setGeneratedQuiz({ ...generatedQuiz, questions: [...generatedQuiz.questions, newQuestion("mcq")] });
   };
 
   const handleUploadNote = async () => {
@@ -683,35 +1600,119 @@ const App = () => {
         showToast("Please provide a title and a file.", "error");
         return;
     }
+    const fileError = noteFileError(noteFile);
+    if (fileError) {
+        showToast(fileError, "error");
+        return;
+    }
+    // The file goes up first; the note only appears once it is there
+    const noteRef = doc(collection(db, "notes"));
+    const path = noteStoragePath(noteRef.id, noteFile.name);
+    setNoteUploadProgress(0);
     try {
-      const fileBase64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]); 
-        reader.readAsDataURL(noteFile);
-      });
-      await addDoc(collection(db, "notes"), {
+      const upload = uploadBytesResumable(storageRef(storage, path), noteFile, { contentType: noteFile.type });
+      upload.on("state_changed", snap => setNoteUploadProgress(snap.bytesTransferred / snap.totalBytes));
+      await upload;
+      const note = {
         title: noteTitle,
         fileName: noteFile.name,
-        fileData: fileBase64,
+        storagePath: path,
+        size: noteFile.size,
         mimeType: noteFile.type,
+        ...(noteBatchIds.length > 0 ? { batchIds: noteBatchIds } : {}),
         createdAt: Date.now(),
+      };
+      await setDoc(noteRef, note).catch(async (e) => {
+        await deleteObject(storageRef(storage, path)).catch(() => {});
+        throw e;
       });
       setNoteTitle("");
       setNoteFile(null);
+      setNoteBatchIds([]);
       showToast("Material uploaded successfully!", "success");
     } catch (e: any) {
         showToast("Upload failed: " + e.message, "error");
+    } finally {
+        setNoteUploadProgress(null);
+    }
+  };
+
+  const openNote = async (note: Note, download: boolean) => {
+    // Opened before anything is awaited, or the popup blocker steps in
+    const tab = download ? null : window.open("", "_blank");
+    setLoadingNoteId(note.id);
+    try {
+      const blob = await loadNoteFile(note);
+      if (download) {
+        saveBlob(blob, note.fileName);
+      } else if (tab) {
+        tab.location.href = URL.createObjectURL(blob);
+      }
+    } catch (e: any) {
+      tab?.close();
+      showToast("Could not load the file: " + e.message, "error");
+    } finally {
+      setLoadingNoteId(null);
     }
   };
 
   const publishQuiz = async () => {
     if (!isAuthenticated || !generatedQuiz) return;
+    const report = validateQuestions(generatedQuiz.questions, generatedQuiz.questions.length);
+    const issues = [...report.issues, ...validatePassages(generatedQuiz.passages, generatedQuiz.questions), ...validateSchedule(generatedQuiz), ...validateProctoring(generatedQuiz), ...validateAdaptive(generatedQuiz)];
+    if (issues.length > 0) {
+      showToast(formatIssue(issues[0]), "error");
+      return;
+    }
     try {
-      const { id, ...quizData } = generatedQuiz;
-      await addDoc(collection(db, "quizzes"), { ...quizData, createdAt: Date.now() });
+      // Students only ever read `quizzes`; the answer key goes to a teacher-only collection
+      const { published, key } = splitAnswerKey(generatedQuiz);
+      const { starts: _starts, ...content } = published;
+      if (isPublished(generatedQuiz)) {
+        const quizRef = doc(db, "quizzes", generatedQuiz.id);
+        const keyRef = doc(db, "quizKeys", quizRef.id);
+        // Attempts may have started since the quiz was opened for editing
+        await runTransaction(db, async (tx) => {
+          const current = await tx.get(quizRef);
+          const version: number = current.get("version") ?? 1;
+          const previousRef = doc(db, "quizVersions", quizVersionId(quizRef.id, version));
+          const [previous, previousKey] = await Promise.all([tx.get(previousRef), tx.get(keyRef)]);
+          // Quizzes published before versions were archived keep the version being replaced
+          if (current.exists() && !previous.exists()) {
+            const { starts: _previousStarts, ...was } = current.data() as Omit<PublishedQuiz, "id">;
+            const wasQuestions = was.questions as Question[];
+            tx.set(previousRef, {
+              quizId: quizRef.id,
+              quiz: { ...was, questions: wasQuestions.map(toPublicQuestion) },
+              key: previousKey.exists() ? (previousKey.data() as AnswerKey).questions : wasQuestions.map(toQuestionKey),
+            } satisfies QuizVersion);
+          }
+          const starts = current.get("starts");
+          tx.set(quizRef, { ...content, ...(starts !== undefined ? { starts } : {}), version: version + 1 });
+          tx.set(keyRef, key);
+          tx.set(doc(db, "quizVersions", quizVersionId(quizRef.id, version + 1)), { quizId: quizRef.id, quiz: { ...content, version: version + 1 }, key: key.questions } satisfies QuizVersion);
+        });
+        setGeneratedQuiz(null);
+        setView("teacher-dash");
+        showToast("Quiz updated. New attempts use the changes.", "success");
+        return;
+      }
+      const quizRef = doc(collection(db, "quizzes"));
+      const batch = writeBatch(db);
+      const created = { ...content, version: 1, createdAt: Date.now() };
+      batch.set(quizRef, created);
+      batch.set(doc(db, "quizKeys", quizRef.id), key);
+      batch.set(doc(db, "quizVersions", quizVersionId(quizRef.id, 1)), { quizId: quizRef.id, quiz: created, key: key.questions } satisfies QuizVersion);
+      await batch.commit();
+      // Best effort, like the grading endpoint: bank questions may have been deleted meanwhile
+      const usedAt = Date.now();
+      await Promise.allSettled(generatedQuiz.questions.flatMap(q => q.bankId ? [
+        updateDoc(doc(db, "questionBank", q.bankId), { "usage.timesUsed": increment(1), "usage.lastUsedAt": usedAt }),
+      ] : []));
       setGeneratedQuiz(null);
       setPrompt("");
       setFile(null);
+      setWithPassage(false);
       setNumQuestions(5);
       setView("teacher-dash");
       showToast("Quiz published successfully!", "success");
@@ -720,62 +1721,673 @@ const App = () => {
     }
   };
 
-  const startQuiz = async (quiz: Quiz) => {
-    if (!studentName.trim()) {
-        showToast("Please enter your name first.", "error");
+  // The review editor also edits published quizzes, which keep their Firestore ID
+  const isPublished = (quiz: Quiz | null) => !!quiz && quizzes.some(q => q.id === quiz.id);
+
+  const editQuiz = async (quiz: PublishedQuiz, questionIndex?: number) => {
+    try {
+      setGeneratedQuiz(await loadFullQuiz(quiz));
+      setView("teacher-create");
+      if (questionIndex !== undefined) {
+        setTimeout(() => document.getElementById(`edit-q-${questionIndex}`)?.scrollIntoView({ behavior: "smooth", block: "center" }), 100);
+      }
+    } catch (e: any) {
+      showToast("Could not open the quiz: " + e.message, "error");
+    }
+  };
+
+  // Shared by students (their own page) and teachers (any student); details hold timings and per-question grading
+  const openProgress = async (id: string, name: string, back: View) => {
+    setProgressStudent({ id, name, back });
+    setProgressDetails(null);
+    setView(back.startsWith("teacher-") ? "teacher-progress" : "student-progress");
+    try {
+      const snap = await getDocs(query(collection(db, "resultDetails"), where("studentId", "==", id)));
+      setProgressDetails(snap.docs.map(d => d.data() as ResultDetail));
+    } catch (e: any) {
+      showToast("Could not load answer details: " + e.message, "error");
+      setProgressDetails([]);
+    }
+  };
+
+  const openItemAnalysis = async (quiz: PublishedQuiz) => {
+    setAnalysis(null);
+    setView("teacher-analysis");
+    try {
+      const [fullQuiz, detailSnap] = await Promise.all([
+        loadFullQuiz(quiz),
+        getDocs(query(collection(db, "resultDetails"), where("quizId", "==", quiz.id))),
+      ]);
+      setAnalysis({ quiz: fullQuiz, details: detailSnap.docs.map(d => ({ id: d.id, ...(d.data() as ResultDetail) })) });
+    } catch (e: any) {
+      showToast("Could not load the analysis: " + e.message, "error");
+      setView("teacher-dash");
+    }
+  };
+
+  // Each student's first attempt on the current version; later attempts are practice on known questions
+  const analyzeQuiz = (quiz: Quiz, details: (ResultDetail & { id: string })[], batchId: string) => {
+    const members = batchId === "All" ? null : batchMembers(enrollments, batchId);
+    const dates = new Map<string, number>(results.map((r: Result) => [r.id, r.date]));
+    const seen = new Set<string>();
+    const firsts = details
+      .filter(d => !members || members.has(d.studentId))
+      .sort((a, b) => (dates.get(a.id) ?? 0) - (dates.get(b.id) ?? 0))
+      .filter(d => {
+        if (seen.has(d.studentId)) return false;
+        seen.add(d.studentId);
+        return true;
+      });
+    const current = firsts.filter(d => d.quizVersion === (quiz.version ?? 1));
+    return {
+      stats: analyzeItems(quiz.questions, current.map(d => unpackAnswers(d.answers, quiz.questions.length)), current.map(d => d.served)),
+      attempts: current.length,
+      older: firsts.length - current.length,
+    };
+  };
+
+  const loadFullQuiz = async (quiz: PublishedQuiz): Promise<Quiz> => {
+    const keySnap = await getDoc(doc(db, "quizKeys", quiz.id));
+    // Legacy quizzes still carry their key inline
+    if (!keySnap.exists()) return quiz as Quiz;
+    return withAnswerKey(quiz, (keySnap.data() as AnswerKey).questions);
+  };
+
+  const downloadQuizPDF = async (quiz: PublishedQuiz) => {
+    if (!isAuthenticated) return;
+    try {
+      downloadPDF(await loadFullQuiz(quiz));
+    } catch (e: any) {
+      showToast("Could not load answer key: " + e.message, "error");
+    }
+  };
+
+  const exportQuizFile = (quiz: Quiz, format: QuizFormat) =>
+    saveBlob(exportQuiz(quiz, format), `${quiz.title.replace(/\s+/g, '_')}_quiz.${QUIZ_FORMATS[format].extension}`);
+
+  const exportPublishedQuiz = async (quiz: PublishedQuiz, format: QuizFormat) => {
+    if (!isAuthenticated) return;
+    try {
+      exportQuizFile(await loadFullQuiz(quiz), format);
+    } catch (e: any) {
+      showToast("Could not load answer key: " + e.message, "error");
+    }
+  };
+
+  // Parses the file for the preview; nothing reaches the editor until the teacher confirms
+  const handleImportFile = async (selected: File | null) => {
+    if (!selected) return;
+    const bytes = new Uint8Array(await selected.arrayBuffer());
+    const format = detectQuizFormat(selected.name, bytes);
+    if (!format) {
+      showToast("Unsupported file. Use .csv, .json, .gift, or a QTI .zip or .xml.", "error");
+      return;
+    }
+    try {
+      setQuizImport({ fileName: selected.name, format, result: await importQuiz(selected.name, bytes, format) });
+    } catch (e: any) {
+      showToast("Could not read the file: " + e.message, "error");
+    }
+  };
+
+  // Valid rows start a new draft, or are appended to the one open in the editor
+  const applyImport = () => {
+    if (!quizImport) return;
+    const { fileName, result } = quizImport;
+    const questions = result.rows.flatMap(r => r.question ? [r.question] : []);
+    if (questions.length === 0) {
+      showToast("There are no valid questions to import.", "error");
+      return;
+    }
+    const used = new Set(questions.map(q => q.passageId));
+    const passages = result.passages.filter(p => used.has(p.id));
+    if (generatedQuiz) {
+      const existing = new Set((generatedQuiz.passages || []).map(p => p.id));
+      const merged = [...(generatedQuiz.passages || []), ...passages.filter(p => !existing.has(p.id))];
+      setGeneratedQuiz({ ...generatedQuiz, questions: [...generatedQuiz.questions, ...questions], ...(merged.length ? { passages: merged } : {}) });
+    } else {
+      setGeneratedQuiz({
+        id: crypto.randomUUID(),
+        title: result.title || fileName.replace(/\.[^.]+$/, ""),
+        subject: result.subject || "General",
+        difficulty: result.difficulty || difficulty,
+        questions,
+        ...(passages.length ? { passages } : {}),
+        durationMinutes: 10,
+        createdAt: Date.now(),
+      });
+    }
+    setQuizImport(null);
+    showToast(`Imported ${questions.length} question${questions.length === 1 ? "" : "s"}.`, "success");
+  };
+
+  const saveToBank = async (indices: number[]) => {
+    if (!isAuthenticated || !generatedQuiz) return;
+    const pending = indices.filter(i => !generatedQuiz.questions[i].bankId);
+    if (pending.length === 0) {
+      showToast("Already saved to the question bank.", "info");
+      return;
+    }
+    const invalid = pending.find(i => validateQuestion(generatedQuiz.questions[i], i).length > 0);
+    if (invalid !== undefined) {
+      showToast(formatIssue(validateQuestion(generatedQuiz.questions[invalid], invalid)[0]), "error");
+      return;
+    }
+    try {
+      const tags = parseTags(bankTags);
+      const questions = [...generatedQuiz.questions];
+      const batch = writeBatch(db);
+      pending.forEach(i => {
+        const ref = doc(collection(db, "questionBank"));
+        const passage = generatedQuiz.passages?.find(p => p.id === questions[i].passageId);
+        batch.set(ref, toBankQuestion(questions[i], generatedQuiz.subject || "General", questions[i].difficulty ?? generatedQuiz.difficulty, tags, passage));
+        questions[i] = { ...questions[i], bankId: ref.id, ...(tags.length ? { tags } : {}) };
+      });
+      await batch.commit();
+      setGeneratedQuiz({ ...generatedQuiz, questions });
+      showToast(`Saved ${pending.length} question${pending.length === 1 ? "" : "s"} to the bank.`, "success");
+    } catch (e: any) {
+      showToast("Save failed: " + e.message, "error");
+    }
+  };
+
+  const createQuizFromBank = (picked: BankQuestion[]) => {
+    if (!isAuthenticated) return;
+    if (picked.length === 0) {
+      showToast("Select at least one question.", "error");
+      return;
+    }
+    const subjects = new Set(picked.map(q => q.subject));
+    // Keep each passage's questions together, in the order the passages were first picked
+    const passages = Array.from(new Map(picked.flatMap(q => q.passage ? [[q.passage.id, q.passage] as const] : [])).values());
+    const ordered = [
+      ...passages.flatMap(p => picked.filter(q => q.passage?.id === p.id)),
+      ...picked.filter(q => !q.passage),
+    ];
+    setGeneratedQuiz({
+      id: crypto.randomUUID(),
+      title: "Question Bank Quiz",
+      subject: subjects.size === 1 ? picked[0].subject : "General",
+      difficulty: bankFilter.difficulty !== "All" ? bankFilter.difficulty as Difficulty : picked[0].difficulty,
+      questions: ordered.map(fromBankQuestion),
+      ...(passages.length ? { passages } : {}),
+      durationMinutes: 10,
+      createdAt: Date.now(),
+    });
+    setSelectedBankIds([]);
+    setView("teacher-create");
+  };
+
+  const drawFromBank = (pool: BankQuestion[]) => {
+    const { questions, shortfalls } = drawByTag(pool, drawCounts);
+    if (questions.length === 0) {
+      showToast("Set how many questions to draw for at least one tag.", "error");
+      return;
+    }
+    createQuizFromBank(questions);
+    if (shortfalls.length > 0) showToast(`Not enough questions for: ${shortfalls.join(", ")}`, "info");
+  };
+
+  const startQuiz = async (quiz: PublishedQuiz) => {
+    if (!student) {
+        showToast("Please sign in first.", "error");
         return;
     }
-    
+    // Has to happen inside the click, before anything is awaited
+    if (quiz.proctored && !document.fullscreenElement) enterFullscreen();
+    if (openAttempts.some(a => a.quizId === quiz.id)) {
+        await openAttempt(quiz);
+        return;
+    }
+    if (!isAssignedTo(quiz, batchesOf(enrollments, studentId))) {
+        showToast("This quiz is for a batch you haven't joined.", "error");
+        return;
+    }
+    const availability = quizAvailability(quiz);
+    if (availability !== "open") {
+        showToast(availability === "upcoming" ? "This quiz hasn't opened yet." : "This quiz has closed.", "error");
+        return;
+    }
+    if (attemptsLeft(quiz, countAttempts(results, quiz.id, studentId)) === 0) {
+        showToast("You have used all your attempts for this quiz.", "error");
+        return;
+    }
+    await openAttempt(quiz);
+  };
+
+  // Starts a new attempt, or picks up the unfinished one, which the server checks for first
+  const openAttempt = async (quiz: PublishedQuiz) => {
+    if (isStarting) return;
+    setIsStarting(true);
     try {
-        await updateDoc(doc(db, "quizzes", quiz.id), { starts: increment(1) });
-    } catch(e) { console.log(e); }
+      // The attempt stays on the version it started on, even if the quiz is edited meanwhile
+      const { attempt: opened, quiz: taken, resumed, serverNow } = await postApi<StartAttemptResponse>("/api/start-attempt", { quizId: quiz.id } satisfies StartAttemptRequest);
+      const offset = serverNow - Date.now();
+      const saved = unpackAnswers(opened.answers, taken.questions.length);
+      setClockOffset(offset);
+      setAttempt(opened);
+      setActiveQuiz(taken);
+      setAnswerKey(null);
+      setAnswers(saved.map((a, i) => a ?? emptyAnswer(taken.questions[i])));
+      proctorEvents.current = opened.events || [];
+      setViolationCount(countViolations(proctorEvents.current));
+      questionTimes.current = taken.questions.map((_, i) => (opened.timeSpent?.[i] ?? 0) * 1000);
+      const first = taken.adaptive ? opened.served![opened.served!.length - 1] : attemptLayout(taken.questions, taken, opened.seed).questionOrder[0];
+      activeQuestion.current = { index: first, since: Date.now() };
+      setTimeLeft(Math.max(0, Math.ceil((attemptEndsAt(opened, taken) - Date.now() - offset) / 1000)));
+      setView("student-quiz");
+      if (resumed) showToast("Welcome back! Your answers were restored.", "info");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const secondsUntil = (deadline: number) => Math.max(0, Math.ceil((deadline - Date.now() - clockOffset) / 1000));
+
+  // Time goes to the question the student last clicked or focused
+  const flushQuestionTime = () => {
+    const active = activeQuestion.current;
+    if (!active || active.since === null) return;
+    const now = Date.now();
+    questionTimes.current[active.index] = (questionTimes.current[active.index] || 0) + now - active.since;
+    active.since = now;
+  };
+
+  const trackQuestion = (index: number) => {
+    if (activeQuestion.current?.index === index) return;
+    flushQuestionTime();
+    activeQuestion.current = { index, since: document.hidden ? null : Date.now() };
+  };
+
+  const timeSpentSeconds = () => {
+    flushQuestionTime();
+    return questionTimes.current.map(ms => Math.round(ms / 1000));
+  };
 
-    localStorage.setItem("studentName", studentName);
-    setActiveQuiz(quiz);
-    setAnswers(new Array(quiz.questions.length).fill(-1));
-    setTimeLeft((quiz.durationMinutes || 10) * 60); 
-    setView("student-quiz");
+  // Firestore queues the write while offline and keeps it in its local cache across reloads
+  const saveAnswers = (attemptId: string, current: Answer[]) => {
+    updateDoc(doc(db, "attempts", attemptId), { answers: packAnswers(current), timeSpent: timeSpentSeconds(), updatedAt: Date.now() })
+      .catch(e => console.log("Could not save answers:", e));
+  };
+
+  // Proctored quizzes log each event on the attempt and warn, or auto-submit at the limit
+  const recordEvent = (type: ProctorEventType) => {
+    if (!attempt || !activeQuiz || isSubmitting) return;
+    const event: ProctorEvent = { type, at: Date.now() + clockOffset };
+    const before = countViolations(proctorEvents.current);
+    proctorEvents.current = [...proctorEvents.current, event];
+    updateDoc(doc(db, "attempts", attempt.id), { events: arrayUnion(event) })
+      .catch(e => console.log("Could not log event:", e));
+    if (!isViolation(type)) return;
+    const violations = countViolations(proctorEvents.current);
+    if (violations === before) return;
+    setViolationCount(violations);
+    const limit = activeQuiz.maxViolations;
+    if (limit !== undefined && violations >= limit) {
+      showToast("Violation limit reached. Your quiz has been submitted.", "error");
+      submitQuiz();
+    } else {
+      showToast(`Recorded: ${PROCTOR_EVENT_LABELS[type]}${limit !== undefined ? ` (${violations}/${limit})` : ""}. Stay on the quiz.`, "error");
+    }
+  };
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  };
+
+  const leaveQuiz = () => {
+    if (!confirm("Leave the quiz? Your answers are saved and the timer keeps running.")) return;
+    if (attempt && !activeQuiz?.adaptive) saveAnswers(attempt.id, answers);
+    setView("student-dash");
+  };
+
+  // Locks in the current adaptive answer; the server picks the next question from it
+  const nextAdaptive = async () => {
+    if (!activeQuiz || !attempt || isAdvancing) return;
+    const current = attempt.served![attempt.served!.length - 1];
+    setIsAdvancing(true);
+    try {
+      const { attempt: updated, done } = await postApi<AdaptiveNextResponse>("/api/adaptive-next", {
+        attemptId: attempt.id,
+        answer: answers[current],
+      } satisfies AdaptiveNextRequest);
+      setAttempt(updated);
+      if (done) {
+        await submitQuiz();
+        return;
+      }
+      trackQuestion(updated.served![updated.served!.length - 1]);
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setIsAdvancing(false);
+    }
   };
 
   const submitQuiz = async () => {
-    if (!activeQuiz) return;
-    let score = 0;
-    activeQuiz.questions.forEach((q, i) => {
-      if (answers[i] === q.correctIndex) score++;
-    });
-    const resultData = {
-      quizId: activeQuiz.id,
-      studentName,
-      score,
-      total: activeQuiz.questions.length,
-      date: Date.now()
-    };
+    if (!activeQuiz || !attempt || isSubmitting) return;
+    setIsSubmitting(true);
     try {
-      const docRef = await addDoc(collection(db, "results"), resultData);
-      setCurrentResult({ id: docRef.id, ...resultData });
+      // Graded on the server, which also records the result; retrying returns the same result
+      const { result, detail, key } = await postApi<SubmitQuizResponse>("/api/submit-quiz", {
+        attemptId: attempt.id,
+        answers,
+        timeSpent: timeSpentSeconds(),
+      } satisfies SubmitQuizRequest);
+      setAttempt(null);
+      activeQuestion.current = null;
+      // The server may have graded the saved answers instead, e.g. after the deadline
+      setAnswers(unpackAnswers(detail.answers, activeQuiz.questions.length));
+      setAnswerKey(key);
+      setCurrentResult(result);
+      setResultDetail(detail);
       setView("student-result");
       showToast("Quiz submitted successfully!", "success");
     } catch (e: any) {
         showToast("Submission failed: " + e.message, "error");
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const getLeaderboard = (quizId: string) => {
-    const quizResults = results.filter(r => r.quizId === quizId).sort((a, b) => a.date - b.date);
-    const uniqueResults: Result[] = [];
-    const seen = new Set<string>();
-    quizResults.forEach(r => {
-        const key = `${r.studentName.trim().toLowerCase()}-${r.score}`;
-        if (!seen.has(key)) { seen.add(key); uniqueResults.push(r); }
-    });
-    return uniqueResults.sort((a, b) => b.score !== a.score ? b.score - a.score : a.date - b.date);
+  const openPastResult = async (result: Result) => {
+    const quiz = quizzes.find(q => q.id === result.quizId);
+    if (!quiz) {
+      showToast("This quiz has been removed.", "error");
+      return;
+    }
+    try {
+      // The quiz comes back as this attempt saw it, which may be an earlier version
+      const { result: saved, detail, quiz: taken, key } = await postApi<ReviewResultResponse>("/api/review-result", { resultId: result.id } satisfies ReviewResultRequest);
+      setActiveQuiz(taken);
+      setAnswers(unpackAnswers(detail.answers, taken.questions.length));
+      setAnswerKey(key);
+      setCurrentResult(saved);
+      setResultDetail(detail);
+      setView("student-result");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    }
+  };
+
+  // Restrict results to one batch's members ("All" keeps everyone)
+  const resultsInBatch = (batchId: string) => {
+    if (batchId === "All") return results;
+    const members = batchMembers(enrollments, batchId);
+    return results.filter(r => members.has(resultStudentId(r)));
+  };
+
+  const getLeaderboard = (quiz: PublishedQuiz, batchId = "All") => quizLeaderboard(resultsInBatch(batchId), quiz);
+
+  // Uses the dashboard's batch filter; the end date is inclusive
+  const exportGradebook = (format: SheetFormat) => {
+    if (!gradebook) return;
+    const { mode, from, to, subject } = gradebook;
+    const members = batchFilter === "All" ? null : batchMembers(enrollments, batchFilter);
+    const end = to ? new Date(`${to}T00:00`) : null;
+    end?.setDate(end.getDate() + 1);
+    const rows = buildGradebook(resultsInBatch(batchFilter), quizzes, members ? roster.filter(s => members.has(s.id)) : roster, {
+      subject,
+      ...(from ? { from: new Date(`${from}T00:00`).getTime() } : {}),
+      ...(end ? { to: end.getTime() } : {}),
+    }, mode);
+    if (rows[0].length === 3) {
+      showToast("No results match these filters.", "info");
+      return;
+    }
+    const range = from || to ? `_${from || "start"}_to_${to || "today"}` : "";
+    downloadSheet(rows, `gradebook${subject === "All" ? "" : `_${subject.replace(/\s+/g, '_')}`}${range}`, format, "Gradebook");
+    setGradebook(null);
+  };
+
+  const exportQuizResults = (quiz: PublishedQuiz, format: SheetFormat) =>
+    downloadSheet(buildQuizResults(quiz, resultsInBatch(batchFilter), roster), `${quiz.title.replace(/\s+/g, '_')}_results`, format, quiz.title);
+
+  const addStudent = async () => {
+    if (!isAuthenticated) return;
+    if (!newStudent.rollNumber.trim() || !newStudent.name.trim()) {
+      showToast("Please enter a roll number and name.", "error");
+      return;
+    }
+    if (!PIN_PATTERN.test(newStudent.pin)) {
+      showToast("PIN must be 4 to 6 digits.", "error");
+      return;
+    }
+    setIsSavingStudent(true);
+    try {
+      const { student: created } = await postApi<SaveStudentResponse>("/api/students", newStudent satisfies SaveStudentRequest);
+      setNewStudent({ rollNumber: "", name: "", pin: "" });
+      showToast(`Added ${created.name} (${created.rollNumber}).`, "success");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setIsSavingStudent(false);
+    }
+  };
+
+  const resetStudentPin = async (target: Student) => {
+    if (!isAuthenticated) return;
+    const newPin = prompt(`New PIN for ${target.name} (4-6 digits):`);
+    if (newPin === null) return;
+    if (!PIN_PATTERN.test(newPin)) {
+      showToast("PIN must be 4 to 6 digits.", "error");
+      return;
+    }
+    try {
+      await postApi<SaveStudentResponse>("/api/students", { studentId: target.id, pin: newPin } satisfies SaveStudentRequest);
+      showToast(`PIN reset for ${target.name}.`, "success");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    }
+  };
+
+  const createBatch = async () => {
+    if (!isAuthenticated) return;
+    const name = newBatchName.trim();
+    if (!name) {
+      showToast("Please enter a batch name.", "error");
+      return;
+    }
+    try {
+      const batchRef = doc(collection(db, "batches"));
+      const write = writeBatch(db);
+      write.set(batchRef, { name, createdAt: Date.now() });
+      write.set(doc(db, "batchCodes", generateJoinCode()), { batchId: batchRef.id });
+      await write.commit();
+      setNewBatchName("");
+      showToast(`Batch "${name}" created.`, "success");
+    } catch (e: any) {
+      showToast("Could not create batch: " + e.message, "error");
+    }
+  };
+
+  const deleteBatch = async (batch: Batch) => {
+    if (!isAuthenticated) return;
+    if (!confirm(`Delete "${batch.name}"? Students will be removed from it and its quizzes and notes become visible to everyone.`)) return;
+    try {
+      const codes = await getDocs(query(collection(db, "batchCodes"), where("batchId", "==", batch.id)));
+      const write = writeBatch(db);
+      write.delete(doc(db, "batches", batch.id));
+      codes.docs.forEach(c => write.delete(c.ref));
+      enrollments.filter(e => e.batchId === batch.id).forEach(e => write.delete(doc(db, "enrollments", e.id)));
+      quizzes.filter(q => q.batchIds?.includes(batch.id)).forEach(q => write.update(doc(db, "quizzes", q.id), { batchIds: arrayRemove(batch.id) }));
+      notes.filter(n => n.batchIds?.includes(batch.id)).forEach(n => write.update(doc(db, "notes", n.id), { batchIds: arrayRemove(batch.id) }));
+      await write.commit();
+      if (batchFilter === batch.id) setBatchFilter("All");
+      showToast("Batch deleted.", "success");
+    } catch (e: any) {
+      showToast("Delete failed: " + e.message, "error");
+    }
+  };
+
+  const assignBatches = async (collectionName: "quizzes" | "notes", id: string, batchIds: string[]) => {
+    if (!isAuthenticated) return;
+    try {
+      await updateDoc(doc(db, collectionName, id), { batchIds });
+    } catch (e: any) {
+      showToast("Could not update batches: " + e.message, "error");
+    }
+  };
+
+  // Practice runs are untimed and never create results, so they don't need an attempt
+  const startPractice = (quiz: PublishedQuiz) => {
+    setPracticeQuiz(quiz);
+    setPracticeSession(null);
+    setPracticeAnswers(quiz.questions.map(emptyAnswer));
+    setPracticeFeedback({});
+    setView("student-practice");
+  };
+
+  const answerPractice = (index: number, answer: Answer) => {
+    setPracticeAnswers(practiceAnswers.map((a, i) => i === index ? answer : a));
+    // Changing the answer is a retry, so the old verdict goes
+    const { [index]: _previous, ...rest } = practiceFeedback;
+    setPracticeFeedback(rest);
+  };
+
+  const checkPractice = async (index: number) => {
+    if (!practiceQuiz || checkingIndex !== null) return;
+    setCheckingIndex(index);
+    try {
+      const { correct, explanation, session } = await postApi<PracticeCheckResponse>("/api/practice-check", {
+        quizId: practiceQuiz.id,
+        ...(practiceSession ? { sessionId: practiceSession.id } : {}),
+        questionIndex: index,
+        answer: practiceAnswers[index],
+      } satisfies PracticeCheckRequest);
+      setPracticeSession(session);
+      setPracticeFeedback({ ...practiceFeedback, [index]: { correct, explanation } });
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setCheckingIndex(null);
+    }
+  };
+
+  const finishPractice = () => {
+    if (practiceSession && practiceQuiz) {
+      const solved = practiceSession.solved.filter(Boolean).length;
+      showToast(`Practice saved: ${solved} of ${practiceQuiz.questions.length} solved, ${practiceSession.firstTry} on the first try.`, "success");
+    }
+    setView("student-dash");
+  };
+
+  // Each round goes through the cards not yet known; once all are known, the whole deck again
+  const startStudy = (noteId: string) => {
+    const pack = studyPacks.find(p => p.noteId === noteId);
+    if (!pack) return;
+    const known = studyProgress.find(p => p.noteId === noteId)?.known ?? [];
+    const remaining = pack.flashcards.filter(c => !known.includes(c.id));
+    setStudyNoteId(noteId);
+    setStudyQueue((remaining.length > 0 ? remaining : pack.flashcards).map(c => c.id));
+    setStudyPos(0);
+    setStudyFlipped(false);
+    setView("student-study");
+  };
+
+  const markFlashcard = (card: Flashcard, isKnown: boolean) => {
+    if (!studyNoteId) return;
+    const known = studyProgress.find(p => p.noteId === studyNoteId)?.known ?? [];
+    const next = isKnown ? Array.from(new Set([...known, card.id])) : known.filter(id => id !== card.id);
+    // Queued offline like answers; the snapshot picks it up locally straight away
+    setDoc(doc(db, "studyProgress", studyProgressId(studentId, studyNoteId)), { studentId, noteId: studyNoteId, known: next, updatedAt: Date.now() })
+      .catch(e => showToast("Could not save progress: " + e.message, "error"));
+    setStudyFlipped(false);
+    setStudyPos(studyPos + 1);
+  };
+
+  const startReview = () => {
+    const due = dueCards(reviewCards, Date.now());
+    if (due.length === 0) return;
+    setReviewQueue(due.map(c => c.id));
+    setReviewPos(0);
+    setReviewAnswer(emptyAnswer(due[0].question));
+    setReviewChecked(false);
+    setView("student-review");
+  };
+
+  const nextReviewCard = () => {
+    const nextCard = reviewCards.find(c => c.id === reviewQueue[reviewPos + 1]);
+    setReviewPos(reviewPos + 1);
+    setReviewAnswer(nextCard ? emptyAnswer(nextCard.question) : null);
+    setReviewChecked(false);
+  };
+
+  // Reviews only reschedule the card; they never create results or touch leaderboards
+  const rateReviewCard = (card: ReviewCard, quality: ReviewQuality) => {
+    const now = Date.now();
+    updateDoc(doc(db, "reviewCards", card.id), { ...scheduleReview(card, quality, now), lastReviewedAt: now })
+      .catch(e => console.log("Could not save review:", e));
+    nextReviewCard();
+  };
+
+  const removeReviewCard = (card: ReviewCard) => {
+    deleteDoc(doc(db, "reviewCards", card.id)).catch(e => showToast("Could not remove the card: " + e.message, "error"));
+    nextReviewCard();
+  };
+
+  const joinBatch = async () => {
+    if (!student || !joinCode.trim()) return;
+    setIsJoining(true);
+    try {
+      const { batch } = await postApi<JoinBatchResponse>("/api/join-batch", { code: joinCode } satisfies JoinBatchRequest);
+      setJoinCode("");
+      showToast(`Joined ${batch.name}!`, "success");
+    } catch (e: any) {
+      showToast(e.message, "error");
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const openAttemptReview = async (result: Result, quiz: PublishedQuiz) => {
+    try {
+      const detailSnap = await getDoc(doc(db, "resultDetails", result.id));
+      if (!detailSnap.exists()) {
+        showToast("No answers were saved for this attempt.", "error");
+        return;
+      }
+      const detail = detailSnap.data() as ResultDetail;
+      // Shown as the attempt saw it; versions published before archiving fall back to the live quiz
+      const archived = await getDoc(doc(db, "quizVersions", quizVersionId(quiz.id, detail.quizVersion)));
+      const taken = archived.data() as QuizVersion | undefined;
+      const fullQuiz = taken ? withAnswerKey({ id: quiz.id, ...taken.quiz }, taken.key) : await loadFullQuiz(quiz);
+      setReviewedAttempt({ result, quiz: fullQuiz, detail });
+    } catch (e: any) {
+      showToast("Could not open the attempt: " + e.message, "error");
+    }
+  };
+
+  // Results share their attempt's ID, which holds the full proctoring log
+  const openEventLog = async (result: Result) => {
+    try {
+      const attemptSnap = await getDoc(doc(db, "attempts", result.id));
+      const events = ((attemptSnap.data() as Attempt | undefined)?.events || []).slice().sort((a, b) => a.at - b.at);
+      setEventLog({ result, events });
+    } catch (e: any) {
+      showToast("Could not load the event log: " + e.message, "error");
+    }
   };
 
   const deleteItem = async (collectionName: string, id: string) => {
       if (!isAuthenticated) return;
       if (confirm("Are you sure you want to delete this item?")) {
         try {
-            await deleteDoc(doc(db, collectionName, id));
+            const batch = writeBatch(db);
+            batch.delete(doc(db, collectionName, id));
+            if (collectionName === "quizzes") {
+              batch.delete(doc(db, "quizKeys", id));
+              const versions = await getDocs(query(collection(db, "quizVersions"), where("quizId", "==", id)));
+              versions.forEach(v => batch.delete(v.ref));
+            }
+            if (collectionName === "notes") batch.delete(doc(db, "studyPacks", id));
+            if (collectionName === "results") batch.delete(doc(db, "resultDetails", id));
+            await batch.commit();
+            // Best effort: an orphaned file is harmless, a dangling note is not
+            const path = collectionName === "notes" ? notes.find(n => n.id === id)?.storagePath : undefined;
+            if (path) await deleteObject(storageRef(storage, path)).catch(e => console.log("Could not delete note file:", e));
             showToast("Item deleted.", "success");
         } catch(e: any) {
             showToast("Delete failed.", "error");
@@ -802,6 +2414,35 @@ const App = () => {
     </header>
   );
 
+  // Opened from the leaderboard and from a student's progress page
+  const renderAttemptReview = () => {
+    if (!reviewedAttempt) return null;
+    const { result, quiz, detail } = reviewedAttempt;
+    const layout = servedLayout(attemptLayout(quiz.questions, quiz, result.seed), detail.served);
+    const shown = presentAttempt<Question>(quiz.questions, unpackAnswers(detail.answers, quiz.questions.length), layout);
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-slate-50 rounded-2xl shadow-2xl p-8 w-full max-w-2xl max-h-[85vh] flex flex-col animate-fade-in-up">
+                <div className="flex justify-between items-start mb-4 gap-4">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-900">{result.studentName} · {result.score}/{result.total}{result.level && ` · ${result.level} level`}</h3>
+                        <p className="text-sm text-slate-500">{new Date(result.date).toLocaleString()} · {formatSeconds(detail.timeSpent.reduce((sum, t) => sum + t, 0))} on questions</p>
+                        {detail.quizVersion !== (quiz.version ?? 1) && <p className="text-xs text-amber-600 mt-1">Version {detail.quizVersion} of the quiz, which this attempt was taken on, wasn't kept; showing version {quiz.version ?? 1}.</p>}
+                    </div>
+                    <button onClick={() => setReviewedAttempt(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                </div>
+                <div className="overflow-y-auto pr-1">
+                    <AttemptReview questions={shown.questions} answers={shown.answers} timeSpent={layout.questionOrder.map(idx => detail.timeSpent[idx] ?? 0)} label="Answer" />
+                </div>
+                <div className="pt-4 flex justify-end">
+                    <Button variant="secondary" onClick={() => downloadDetailedReport(result.studentName, quiz, unpackAnswers(detail.answers, quiz.questions.length), result, layout, detail.timeSpent)}>Download Report</Button>
+                </div>
+            </div>
+        </div>
+    );
+  };
+  const attemptReviewModal = renderAttemptReview();
+
   // --- Views ---
 
   if (view === "landing") {
@@ -829,7 +2470,7 @@ const App = () => {
         </div>
         
         <div className="grid md:grid-cols-2 gap-6 w-full max-w-4xl px-6 relative z-10">
-          <button onClick={() => setShowAuth(true)} className="group relative bg-white p-8 rounded-2xl shadow-xl shadow-indigo-100/50 hover:shadow-2xl hover:shadow-indigo-200/50 transition-all duration-300 border border-white transform hover:-translate-y-1 text-left">
+          <button onClick={() => isAuthenticated ? setView("teacher-dash") : setShowAuth("teacher")} className="group relative bg-white p-8 rounded-2xl shadow-xl shadow-indigo-100/50 hover:shadow-2xl hover:shadow-indigo-200/50 transition-all duration-300 border border-white transform hover:-translate-y-1 text-left">
             <div className="w-14 h-14 bg-indigo-600 rounded-xl flex items-center justify-center mb-6 text-white shadow-lg shadow-indigo-200">
               <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"/></svg>
             </div>
@@ -837,7 +2478,7 @@ const App = () => {
             <p className="text-slate-500">Create content, upload notes, and monitor student analytics.</p>
           </button>
 
-          <button onClick={() => setView("student-dash")} className="group relative bg-white p-8 rounded-2xl shadow-xl shadow-indigo-100/50 hover:shadow-2xl hover:shadow-indigo-200/50 transition-all duration-300 border border-white transform hover:-translate-y-1 text-left">
+          <button onClick={() => student ? setView("student-dash") : setShowAuth("student")} className="group relative bg-white p-8 rounded-2xl shadow-xl shadow-indigo-100/50 hover:shadow-2xl hover:shadow-indigo-200/50 transition-all duration-300 border border-white transform hover:-translate-y-1 text-left">
             <div className="w-14 h-14 bg-emerald-500 rounded-xl flex items-center justify-center mb-6 text-white shadow-lg shadow-emerald-200">
               <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"/></svg>
             </div>
@@ -846,13 +2487,54 @@ const App = () => {
           </button>
         </div>
 
-        {showAuth && (
+        {showAuth === "student" && (
+          <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-sm animate-fade-in-up">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xl font-bold text-slate-900">Student Login</h3>
+                <button onClick={() => setShowAuth(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+              </div>
+              <p className="text-sm text-slate-500 mb-6">Use the roll number and PIN from your teacher.</p>
+              <input 
+                type="text" 
+                placeholder="Roll Number" 
+                className="w-full p-4 border border-slate-200 rounded-xl mb-4 focus:ring-2 focus:ring-emerald-500 outline-none bg-slate-50 text-slate-900 uppercase transition-all"
+                value={rollNumber}
+                onChange={(e) => setRollNumber(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+              <input 
+                type="password" 
+                inputMode="numeric"
+                placeholder="PIN" 
+                className="w-full p-4 border border-slate-200 rounded-xl mb-4 focus:ring-2 focus:ring-emerald-500 outline-none bg-slate-50 text-slate-900 tracking-widest transition-all"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                onKeyDown={(e) => e.key === 'Enter' && handleStudentLogin()}
+                autoComplete="current-password"
+              />
+              <Button onClick={handleStudentLogin} disabled={isSigningIn} fullWidth>{isSigningIn ? "Signing in..." : "Enter Portal"}</Button>
+            </div>
+          </div>
+        )}
+
+        {showAuth === "teacher" && (
           <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-sm animate-fade-in-up">
               <div className="flex justify-between items-center mb-8">
                 <h3 className="text-xl font-bold text-slate-900">Teacher Login</h3>
-                <button onClick={() => setShowAuth(false)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                <button onClick={() => setShowAuth(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
               </div>
+              <input 
+                type="email" 
+                placeholder="Email" 
+                className="w-full p-4 border border-slate-200 rounded-xl mb-4 focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50 text-slate-900 transition-all"
+                value={authEmail}
+                onChange={(e) => setAuthEmail(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
               <input 
                 type="password" 
                 placeholder="Password" 
@@ -860,9 +2542,9 @@ const App = () => {
                 value={authPassword}
                 onChange={(e) => setAuthPassword(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleAuth()}
-                autoFocus
+                autoComplete="current-password"
               />
-              <Button onClick={handleAuth} fullWidth>Access Dashboard</Button>
+              <Button onClick={handleAuth} disabled={isSigningIn} fullWidth>{isSigningIn ? "Signing in..." : "Access Dashboard"}</Button>
             </div>
           </div>
         )}
@@ -872,20 +2554,34 @@ const App = () => {
 
   if (view === "teacher-dash") {
     // Analytics
-    const totalStudents = new Set(results.map(r => r.studentName.toLowerCase())).size;
-    const globalAvg = results.length > 0 ? Math.round(results.reduce((acc, curr) => acc + (curr.score / curr.total), 0) / results.length * 100) : 0;
+    const batchResults = resultsInBatch(batchFilter);
+    const batchQuizzes = batchFilter === "All" ? quizzes : quizzes.filter(q => q.batchIds?.includes(batchFilter));
+    const totalStudents = batchFilter === "All"
+        ? new Set(results.map(resultStudentId)).size
+        : batchMembers(enrollments, batchFilter).size;
+    const globalAvg = batchResults.length > 0 ? Math.round(batchResults.reduce((acc, curr) => acc + (curr.score / curr.total), 0) / batchResults.length * 100) : 0;
 
     return (
       <div className="min-h-screen bg-slate-50">
         {toast && <Toast {...toast} onClose={() => setToast(null)} />}
-        <Header title="Teacher Dashboard" onBack={() => setView("landing")} />
+        <Header title="Teacher Dashboard" onBack={() => setView("landing")} rightContent={<Button variant="ghost" className="text-sm" onClick={handleSignOut}>Sign Out</Button>} />
         <main className="max-w-6xl mx-auto p-6 space-y-8">
           
+          {batches.length > 0 && (
+              <div className="flex items-center gap-3">
+                  <label className="text-sm font-semibold text-slate-600">Batch</label>
+                  <select value={batchFilter} onChange={(e) => setBatchFilter(e.target.value)} className="p-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                      <option value="All">All students</option>
+                      {batches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                  </select>
+              </div>
+          )}
+
           {/* Quick Stats */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <StatCard 
                 title="Active Quizzes" 
-                value={quizzes.length} 
+                value={batchQuizzes.length} 
                 color="bg-indigo-500"
                 icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"/></svg>}
               />
@@ -903,16 +2599,22 @@ const App = () => {
               />
           </div>
 
+          <Rankings results={batchResults} quizzes={batchQuizzes} now={now} />
+
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold text-slate-800">Your Quizzes</h2>
             <div className="flex gap-3">
+              <Button variant="secondary" onClick={() => setGradebook({ mode: "best", from: "", to: "", subject: "All" })}>Gradebook</Button>
+              <Button variant="secondary" onClick={() => setView("teacher-students")}>Students</Button>
+              <Button variant="secondary" onClick={() => setView("teacher-batches")}>Batches</Button>
+              <Button variant="secondary" onClick={() => setView("teacher-bank")}>Question Bank</Button>
               <Button variant="secondary" onClick={() => setView("teacher-notes")}>Upload Notes</Button>
               <Button onClick={() => setView("teacher-create")}>+ New Quiz</Button>
             </div>
           </div>
 
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {quizzes.length === 0 ? (
+            {batchQuizzes.length === 0 ? (
               <div className="col-span-full py-16 text-center text-slate-400 bg-white rounded-xl border-2 border-dashed border-slate-200">
                 <div className="mb-4 text-slate-300">
                     <svg className="w-16 h-16 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"/></svg>
@@ -921,11 +2623,12 @@ const App = () => {
                 <p className="text-sm">Click "New Quiz" to get started with AI.</p>
               </div>
             ) : (
-              quizzes.map(quiz => {
-                const quizResults = results.filter(r => r.quizId === quiz.id);
+              batchQuizzes.map(quiz => {
+                const quizResults = batchResults.filter(r => r.quizId === quiz.id);
                 const avgScore = quizResults.length > 0
                     ? Math.round(quizResults.reduce((acc, curr) => acc + (curr.score / curr.total), 0) / quizResults.length * 100)
                     : null;
+                const levelCounts = (["Easy", "Medium", "Hard"] as Difficulty[]).map(level => ({ level, count: quizResults.filter(r => r.level === level).length }));
 
                 return (
                     <Card key={quiz.id} hover className="flex flex-col h-full">
@@ -939,7 +2642,23 @@ const App = () => {
                             <div className="text-sm text-slate-500 mb-4 space-y-1">
                                 <p className="flex items-center gap-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/></svg> {quiz.questions.length} Questions</p>
                                 <p className="flex items-center gap-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg> {quiz.durationMinutes || 10} Minutes</p>
+                                {(quiz.opensAt !== undefined || quiz.closesAt !== undefined || quiz.maxAttempts !== undefined) && (
+                                    <p className="flex items-center gap-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"/></svg> <span className="capitalize">{quizAvailability(quiz)}</span>{quiz.closesAt !== undefined && ` · closes ${new Date(quiz.closesAt).toLocaleDateString()}`}{quiz.maxAttempts !== undefined && ` · ${quiz.maxAttempts} attempt${quiz.maxAttempts === 1 ? "" : "s"}`}</p>
+                                )}
+                                {quiz.proctored && (
+                                    <p className="flex items-center gap-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"/></svg> Proctored{quiz.maxViolations !== undefined && ` · auto-submit after ${quiz.maxViolations} violations`}</p>
+                                )}
+                                {quiz.adaptive && (
+                                    <p className="flex items-center gap-2"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 11l5-5m0 0l5 5m-5-5v12"/></svg> Adaptive · {adaptiveLength(quiz)} of {quiz.questions.length} served</p>
+                                )}
                             </div>
+                            {quiz.adaptive && quizResults.length > 0 && (
+                                <div className="mb-4 flex gap-2 text-xs">
+                                    {levelCounts.map(({ level, count }) => (
+                                        <span key={level} className="flex-1 text-center px-2 py-1 rounded bg-violet-50 text-violet-700"><strong>{count}</strong> {level}</span>
+                                    ))}
+                                </div>
+                            )}
                             
                             {avgScore !== null ? (
                                 <div className="mb-4">
@@ -954,10 +2673,17 @@ const App = () => {
                             ) : (
                                 <p className="text-xs text-slate-400 mb-4 italic">No attempts yet</p>
                             )}
+                            {batches.length > 0 && <div className="mb-4"><BatchPicker batches={batches} selected={quiz.batchIds} onChange={(ids) => assignBatches("quizzes", quiz.id, ids)} /></div>}
                         </div>
                         <div className="pt-4 border-t border-slate-100 grid grid-cols-2 gap-2">
-                            <Button variant="secondary" className="text-xs" onClick={() => downloadPDF(quiz)}>PDF</Button>
+                            <Button variant="secondary" className="text-xs" onClick={() => downloadQuizPDF(quiz)}>PDF</Button>
                             <Button variant="secondary" className="text-xs" onClick={() => { setLeaderboardQuiz(quiz); setView("teacher-leaderboard"); }}>Leaderboard</Button>
+                            <Button variant="secondary" className="text-xs" onClick={() => openItemAnalysis(quiz)}>Item Analysis</Button>
+                            <Button variant="secondary" className="text-xs" onClick={() => editQuiz(quiz)}>Edit</Button>
+                            <select value="" onChange={(e) => e.target.value && exportPublishedQuiz(quiz, e.target.value as QuizFormat)} className="col-span-2 px-3 py-2 rounded-lg border border-indigo-200 bg-white text-indigo-700 text-xs font-medium shadow-sm">
+                                <option value="">Export as...</option>
+                                {(Object.keys(QUIZ_FORMATS) as QuizFormat[]).map(f => <option key={f} value={f}>{QUIZ_FORMATS[f].label}</option>)}
+                            </select>
                             <Button variant="danger" className="text-xs col-span-2" onClick={() => deleteItem("quizzes", quiz.id)}>Delete</Button>
                         </div>
                     </Card>
@@ -966,15 +2692,59 @@ const App = () => {
             )}
           </div>
         </main>
+        {gradebook && (
+            <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md animate-fade-in-up">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-xl font-bold text-slate-900">Export Gradebook</h3>
+                        <button onClick={() => setGradebook(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                    </div>
+                    <p className="text-sm text-slate-500 mb-6">
+                        One row per student{batchFilter !== "All" && <> in {batches.find(b => b.id === batchFilter)?.name}</>}, one column per quiz. Scores are percentages.
+                    </p>
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Score per Quiz</label>
+                            <select value={gradebook.mode} onChange={(e) => setGradebook({ ...gradebook, mode: e.target.value as GradeMode })} className="w-full p-3 border border-slate-200 rounded-lg bg-white">
+                                {(Object.keys(GRADE_MODE_LABELS) as GradeMode[]).map(m => <option key={m} value={m}>{GRADE_MODE_LABELS[m]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-2">Subject</label>
+                            <select value={gradebook.subject} onChange={(e) => setGradebook({ ...gradebook, subject: e.target.value })} className="w-full p-3 border border-slate-200 rounded-lg bg-white">
+                                <option value="All">All subjects</option>
+                                {Array.from(new Set(quizzes.map(quizSubject))).sort().map(subject => <option key={subject} value={subject}>{subject}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">From</label>
+                                <input type="date" value={gradebook.from} onChange={(e) => setGradebook({ ...gradebook, from: e.target.value })} className="w-full p-3 border border-slate-200 rounded-lg bg-slate-50" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">To</label>
+                                <input type="date" value={gradebook.to} onChange={(e) => setGradebook({ ...gradebook, to: e.target.value })} className="w-full p-3 border border-slate-200 rounded-lg bg-slate-50" />
+                            </div>
+                        </div>
+                        <p className="text-xs text-slate-400">Leave the dates empty to include every attempt.</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <Button variant="secondary" onClick={() => exportGradebook("csv")}>Download CSV</Button>
+                            <Button onClick={() => exportGradebook("xlsx")}>Download XLSX</Button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )}
       </div>
     );
   }
 
   if (view === "teacher-create") {
+    const isEditing = isPublished(generatedQuiz);
     return (
       <div className="min-h-screen bg-slate-50">
         {toast && <Toast {...toast} onClose={() => setToast(null)} />}
-        <Header title="Create New Quiz" onBack={() => setView("teacher-dash")} />
+        <Header title={isEditing ? "Edit Quiz" : "Create New Quiz"} onBack={() => setView("teacher-dash")} />
         <main className="max-w-4xl mx-auto p-6">
           {!generatedQuiz ? (
             <Card className="animate-fade-in-up">
@@ -1000,6 +2770,10 @@ const App = () => {
                              <option value="Hard">Hard</option>
                          </select>
                      </div>
+                     <label className="flex items-center gap-3 p-3 mt-7 border border-slate-200 rounded-lg bg-white cursor-pointer">
+                         <input type="checkbox" checked={withPassage} onChange={(e) => setWithPassage(e.target.checked)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                         <span className="text-sm text-slate-700">Reading comprehension <span className="text-slate-400">(passage + questions)</span></span>
+                     </label>
                 </div>
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-2">Topic or Prompt</label>
@@ -1017,15 +2791,29 @@ const App = () => {
                 <Button onClick={handleCreateQuiz} disabled={isGenerating} fullWidth className="mt-4">
                   {isGenerating ? <div className="flex items-center justify-center gap-2"><div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> Generating...</div> : "Generate Quiz"}
                 </Button>
+                <div className="relative py-2">
+                  <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-slate-200"></div></div>
+                  <div className="relative flex justify-center text-xs uppercase tracking-wide"><span className="px-3 bg-white text-slate-400">or import questions</span></div>
+                </div>
+                <div>
+                  <Button variant="secondary" onClick={() => importInputRef.current?.click()} fullWidth>Import File</Button>
+                  <p className="text-xs text-slate-400 mt-2 text-center">CSV, JSON, Moodle GIFT or a QTI 2.1 package. You'll see a preview before anything is added.</p>
+                </div>
               </div>
             </Card>
           ) : (
             <div className="space-y-6 animate-fade-in-up">
               <div className="flex items-center justify-between mb-2">
-                <h2 className="text-2xl font-bold text-slate-800">Review & Edit Quiz</h2>
+                <h2 className="text-2xl font-bold text-slate-800">{isEditing ? "Edit Published Quiz" : "Review & Edit Quiz"}</h2>
                 <div className="flex gap-2">
                   <Button variant="ghost" onClick={() => setGeneratedQuiz(null)}>Discard</Button>
-                  <Button onClick={publishQuiz}>Publish</Button>
+                  <Button variant="secondary" onClick={() => importInputRef.current?.click()}>Import</Button>
+                  <select value="" onChange={(e) => e.target.value && exportQuizFile(generatedQuiz, e.target.value as QuizFormat)} className="px-3 py-2.5 rounded-lg border border-indigo-200 bg-white text-indigo-700 text-sm font-medium shadow-sm">
+                      <option value="">Export as...</option>
+                      {(Object.keys(QUIZ_FORMATS) as QuizFormat[]).map(f => <option key={f} value={f}>{QUIZ_FORMATS[f].label}</option>)}
+                  </select>
+                  <Button variant="secondary" onClick={() => saveToBank(generatedQuiz.questions.map((_, i) => i))}>Save All to Bank</Button>
+                  <Button onClick={publishQuiz}>{isEditing ? "Save Changes" : "Publish"}</Button>
                 </div>
               </div>
               
@@ -1054,55 +2842,161 @@ const App = () => {
                     <label className="text-xs font-bold text-slate-400 uppercase">Duration (Min)</label>
                     <input type="number" value={generatedQuiz.durationMinutes} onChange={(e) => updateQuizField('durationMinutes', parseInt(e.target.value) || 10)} className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none" />
                  </div>
+                 <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase">Opens At</label>
+                    <input type="datetime-local" value={toDateTimeInput(generatedQuiz.opensAt)} onChange={(e) => updateQuizField('opensAt', fromDateTimeInput(e.target.value))} className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none" />
+                 </div>
+                 <div>
+                    <label className="text-xs font-bold text-slate-400 uppercase">Closes At</label>
+                    <input type="datetime-local" value={toDateTimeInput(generatedQuiz.closesAt)} onChange={(e) => updateQuizField('closesAt', fromDateTimeInput(e.target.value))} className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none" />
+                 </div>
+                 <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase">Source Note</label>
+                    <select value={generatedQuiz.noteId ?? ""} onChange={(e) => updateQuizField('noteId', e.target.value || undefined)} className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">None</option>
+                        {notes.map(n => <option key={n.id} value={n.id}>{n.title}</option>)}
+                    </select>
+                    <p className="text-xs text-slate-400 mt-1">Students are offered this note as "Revise this material" on their result.</p>
+                 </div>
+                 <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase">Max Attempts</label>
+                    <input type="number" min={1} value={generatedQuiz.maxAttempts ?? ""} onChange={(e) => updateQuizField('maxAttempts', e.target.value ? parseInt(e.target.value) : undefined)} placeholder="Unlimited" className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    <p className="text-xs text-slate-400 mt-1">Leave the times empty to open now and never close. Attempts are counted per student.</p>
+                 </div>
+                 <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase">Leaderboard Ranks</label>
+                    <select value={generatedQuiz.leaderboardAttempt ?? "best"} onChange={(e) => updateQuizField('leaderboardAttempt', e.target.value === "best" ? undefined : e.target.value as LeaderboardAttempt)} className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {(Object.keys(LEADERBOARD_ATTEMPT_LABELS) as LeaderboardAttempt[]).map(a => <option key={a} value={a}>{LEADERBOARD_ATTEMPT_LABELS[a]}</option>)}
+                    </select>
+                    <p className="text-xs text-slate-400 mt-1">Each student appears once. Equal scores are ranked by time taken.</p>
+                 </div>
+                 <div className="md:col-span-2 flex flex-wrap gap-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={!!generatedQuiz.shuffleQuestions} onChange={(e) => updateQuizField('shuffleQuestions', e.target.checked || undefined)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                        Shuffle question order per attempt
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={!!generatedQuiz.shuffleOptions} onChange={(e) => updateQuizField('shuffleOptions', e.target.checked || undefined)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                        Shuffle options <span className="text-slate-400">("All of the above" stays put)</span>
+                    </label>
+                 </div>
+                 <div className="md:col-span-2 flex flex-wrap items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={!!generatedQuiz.proctored} onChange={(e) => updateQuizField('proctored', e.target.checked || undefined)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                        Proctoring <span className="text-slate-400">(log tab switches, fullscreen exits, copy/paste)</span>
+                    </label>
+                    {generatedQuiz.proctored && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                            Auto-submit after
+                            <input type="number" min={1} value={generatedQuiz.maxViolations ?? ""} onChange={(e) => updateQuizField('maxViolations', e.target.value ? parseInt(e.target.value) : undefined)} placeholder="—" className="w-16 p-1.5 bg-slate-50 border border-slate-200 rounded text-slate-800 text-center focus:ring-2 focus:ring-indigo-500 outline-none" />
+                            violations <span className="text-slate-400">(empty: warn only)</span>
+                        </label>
+                    )}
+                 </div>
+                 <div className="md:col-span-2 flex flex-wrap items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={!!generatedQuiz.adaptive} onChange={(e) => updateQuizField('adaptive', e.target.checked || undefined)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                        Adaptive <span className="text-slate-400">(one question at a time, harder or easier based on each answer)</span>
+                    </label>
+                    {generatedQuiz.adaptive && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                            Serve
+                            <input type="number" min={1} max={generatedQuiz.questions.length} value={generatedQuiz.adaptiveLength ?? ""} onChange={(e) => updateQuizField('adaptiveLength', e.target.value ? parseInt(e.target.value) : undefined)} placeholder={String(generatedQuiz.questions.length)} className="w-16 p-1.5 bg-slate-50 border border-slate-200 rounded text-slate-800 text-center focus:ring-2 focus:ring-indigo-500 outline-none" />
+                            of {generatedQuiz.questions.length} questions <span className="text-slate-400">(set each question's difficulty below)</span>
+                        </label>
+                    )}
+                 </div>
+                 {batches.length > 0 && (
+                     <div className="md:col-span-2">
+                        <label className="text-xs font-bold text-slate-400 uppercase block mb-2">Assign to Batches</label>
+                        <BatchPicker batches={batches} selected={generatedQuiz.batchIds} onChange={(ids) => updateQuizField('batchIds', ids.length > 0 ? ids : undefined)} />
+                     </div>
+                 )}
+                 <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase">Question Bank Tags</label>
+                    <input type="text" value={bankTags} onChange={(e) => setBankTags(e.target.value)} placeholder="e.g. tenses, active-passive voice" className="block w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    <p className="text-xs text-slate-400 mt-1">Comma-separated. Applied to questions you save to the bank.</p>
+                 </div>
               </div>
 
+              <Card>
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h3 className="font-bold text-slate-800">Reading Passages</h3>
+                        <p className="text-xs text-slate-400">Link questions to a passage to show it beside them and print it once.</p>
+                    </div>
+                    <Button variant="secondary" className="text-sm" onClick={addPassage}>+ Add Passage</Button>
+                </div>
+                <div className="space-y-4">
+                    {(generatedQuiz.passages || []).map((p: Passage, pIdx: number) => (
+                        <div key={p.id} className="p-4 rounded-lg border border-amber-100 bg-amber-50/40 space-y-3">
+                            <div className="flex gap-2 items-center">
+                                <span className="text-xs font-bold text-amber-600 uppercase w-6">P{pIdx + 1}</span>
+                                <input type="text" value={p.title || ''} onChange={(e) => updatePassage(p.id, { title: e.target.value })} placeholder="Title" className="flex-1 p-2 bg-white border border-slate-200 rounded text-sm font-semibold text-slate-800" />
+                                <select value={p.kind || "prose"} onChange={(e) => updatePassage(p.id, { kind: e.target.value as Passage["kind"] })} className="p-2 bg-white border border-slate-200 rounded text-sm">
+                                    <option value="prose">Passage</option>
+                                    <option value="poem">Poem</option>
+                                </select>
+                                <button onClick={() => removePassage(p.id)} className="text-red-400 hover:text-red-600 text-xs font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors">Delete</button>
+                            </div>
+                            <textarea value={p.text} onChange={(e) => updatePassage(p.id, { text: e.target.value })} placeholder="Paste the unseen passage or poem..." rows={6} className="w-full p-3 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none" />
+                        </div>
+                    ))}
+                </div>
+              </Card>
+
               <div className="space-y-4">
                 {generatedQuiz.questions.map((q, i) => (
-                  <Card key={i}>
+                  <Card key={i} id={`edit-q-${i}`}>
                     <div className="flex justify-between items-center mb-4">
-                        <span className="font-bold text-indigo-600">Question {i + 1}</span>
-                        <button onClick={() => removeQuestion(i)} className="text-red-400 hover:text-red-600 text-xs font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors">Delete</button>
+                        <div className="flex items-center gap-3">
+                            <span className="font-bold text-indigo-600">Question {i + 1}</span>
+                            <select value={questionType(q)} onChange={(e) => changeQuestionType(i, e.target.value as QuestionType)} className="text-xs p-1 border border-slate-200 rounded bg-white text-slate-600">
+                                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>)}
+                            </select>
+                            {(generatedQuiz.passages || []).length > 0 && (
+                                <select value={q.passageId || ""} onChange={(e) => updateQuestion(i, { passageId: e.target.value || undefined })} className="text-xs p-1 border border-amber-200 rounded bg-amber-50 text-amber-700">
+                                    <option value="">No passage</option>
+                                    {(generatedQuiz.passages || []).map((p: Passage, pIdx: number) => <option key={p.id} value={p.id}>P{pIdx + 1}: {p.title || "Untitled"}</option>)}
+                                </select>
+                            )}
+                            {generatedQuiz.adaptive && (
+                                <select value={q.difficulty ?? generatedQuiz.difficulty} onChange={(e) => updateQuestion(i, { difficulty: e.target.value as Difficulty })} className="text-xs p-1 border border-slate-200 rounded bg-white text-slate-600">
+                                    <option value="Easy">Easy</option>
+                                    <option value="Medium">Medium</option>
+                                    <option value="Hard">Hard</option>
+                                </select>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {q.bankId ? (
+                                <span className="text-xs font-medium text-emerald-600 bg-emerald-50 px-2 py-1 rounded">In Bank</span>
+                            ) : (
+                                <button onClick={() => saveToBank([i])} className="text-indigo-500 hover:text-indigo-700 text-xs font-medium px-2 py-1 rounded hover:bg-indigo-50 transition-colors">Save to Bank</button>
+                            )}
+                            <button onClick={() => removeQuestion(i)} className="text-red-400 hover:text-red-600 text-xs font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors">Delete</button>
+                        </div>
                     </div>
                     
                     <div className="mb-4">
                         <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Question Text</label>
                         <textarea 
                             value={q.text} 
-                            onChange={(e) => updateQuestion(i, 'text', e.target.value)}
+                            onChange={(e) => updateQuestion(i, { text: e.target.value })}
                             className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-slate-800 font-medium bg-white"
                             rows={2}
                         />
                     </div>
 
                     <div className="mb-4">
-                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Options (Select Correct Answer)</label>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {q.options.map((opt, optIdx) => (
-                            <div key={optIdx} className={`flex items-center gap-2 p-2 rounded-lg border transition-colors ${optIdx === q.correctIndex ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-200'}`}>
-                                <input 
-                                    type="radio" 
-                                    name={`q-${i}-correct`} 
-                                    checked={optIdx === q.correctIndex} 
-                                    onChange={() => updateQuestion(i, 'correctIndex', optIdx)}
-                                    className="w-4 h-4 text-emerald-600 focus:ring-emerald-500 border-gray-300"
-                                />
-                                <span className="text-xs font-bold text-slate-400 w-4">{String.fromCharCode(65 + optIdx)}</span>
-                                <input 
-                                    type="text" 
-                                    value={opt} 
-                                    onChange={(e) => updateOption(i, optIdx, e.target.value)}
-                                    className="flex-1 bg-transparent border-none focus:ring-0 text-sm text-slate-700 placeholder-slate-400"
-                                />
-                            </div>
-                        ))}
-                        </div>
+                        <QuestionAnswerEditor question={q} name={`q-${i}-correct`} onChange={(patch) => updateQuestion(i, patch)} />
                     </div>
                     
                     <div>
                          <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Explanation</label>
                          <textarea 
                              value={q.explanation || ''} 
-                             onChange={(e) => updateQuestion(i, 'explanation', e.target.value)}
+                             onChange={(e) => updateQuestion(i, { explanation: e.target.value })}
                              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none"
                              rows={2}
                              placeholder="Explain why the answer is correct..."
@@ -1116,31 +3010,332 @@ const App = () => {
             </div>
           )}
         </main>
+        <input ref={importInputRef} type="file" accept=".csv,.json,.gift,.txt,.xml,.zip" className="hidden" onChange={(e) => { handleImportFile(e.target.files ? e.target.files[0] : null); e.target.value = ""; }} />
+        {quizImport && (() => {
+            const valid = quizImport.result.rows.filter(r => r.question).length;
+            const invalid = quizImport.result.rows.length - valid;
+            return (
+                <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-2xl max-h-[85vh] flex flex-col animate-fade-in-up">
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="text-xl font-bold text-slate-900">Import Preview</h3>
+                            <button onClick={() => setQuizImport(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                        </div>
+                        <p className="text-sm text-slate-500 mb-4">
+                            {quizImport.fileName} ({QUIZ_FORMATS[quizImport.format].label}): <span className="text-emerald-600 font-semibold">{valid} ready</span>
+                            {invalid > 0 && <>, <span className="text-red-600 font-semibold">{invalid} with errors</span> (skipped)</>}
+                            {quizImport.result.passages.length > 0 && <>, {quizImport.result.passages.length} passage{quizImport.result.passages.length === 1 ? "" : "s"}</>}
+                        </p>
+                        <div className="flex-1 overflow-y-auto space-y-2 mb-6">
+                            {quizImport.result.rows.map((row, i) => (
+                                <div key={i} className={`p-3 rounded-lg border text-sm ${row.question ? "border-slate-200 bg-slate-50" : "border-red-200 bg-red-50"}`}>
+                                    <div className="flex items-start gap-3">
+                                        <span className="text-xs font-mono text-slate-400 shrink-0 w-28 truncate" title={row.source}>{row.source}</span>
+                                        <div className="flex-1 min-w-0">
+                                            {row.question ? (
+                                                <>
+                                                    <span className="text-xs font-bold text-indigo-600 uppercase mr-2">{QUESTION_TYPE_LABELS[questionType(row.question)]}</span>
+                                                    <span className="text-slate-700">{row.question.text}</span>
+                                                </>
+                                            ) : (
+                                                <ul className="text-red-700 list-disc pl-4">
+                                                    {row.errors.map((error, n) => <li key={n}>{error}</li>)}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="ghost" onClick={() => setQuizImport(null)}>Cancel</Button>
+                            <Button onClick={applyImport} disabled={valid === 0}>{generatedQuiz ? `Add ${valid} to Quiz` : "Open in Editor"}</Button>
+                        </div>
+                    </div>
+                </div>
+            );
+        })()}
+      </div>
+    );
+  }
+
+  if (view === "teacher-bank") {
+    const bankSubjects = ["All", ...Array.from(new Set(bank.map(q => q.subject)))];
+    const bankTagList = Array.from(new Set<string>(bank.flatMap(q => q.tags))).sort();
+    const search = bankFilter.search.trim().toLowerCase();
+    const filteredBank = bank.filter(q =>
+        (bankFilter.subject === "All" || q.subject === bankFilter.subject) &&
+        (bankFilter.difficulty === "All" || q.difficulty === bankFilter.difficulty) &&
+        (bankFilter.tag === "All" || q.tags.includes(bankFilter.tag)) &&
+        (!search || q.text.toLowerCase().includes(search))
+    );
+    const drawTags = Array.from(new Set<string>(filteredBank.flatMap(q => q.tags))).sort();
+    const toggleSelected = (id: string) => setSelectedBankIds(ids => ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+    const selectClass = "w-full p-2 border border-slate-200 rounded-lg bg-white text-sm";
+
+    return (
+      <div className="min-h-screen bg-slate-50">
+        {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        <Header title="Question Bank" onBack={() => setView("teacher-dash")} />
+        <main className="max-w-5xl mx-auto p-6 pb-28 space-y-6">
+          <Card className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="col-span-2 md:col-span-4">
+                  <input type="text" value={bankFilter.search} onChange={(e) => setBankFilter({ ...bankFilter, search: e.target.value })} placeholder="Search question text..." className="w-full p-3 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+              <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Subject</label>
+                  <select className={selectClass} value={bankFilter.subject} onChange={(e) => setBankFilter({ ...bankFilter, subject: e.target.value })}>
+                      {bankSubjects.map(sub => <option key={sub} value={sub}>{sub}</option>)}
+                  </select>
+              </div>
+              <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Difficulty</label>
+                  <select className={selectClass} value={bankFilter.difficulty} onChange={(e) => setBankFilter({ ...bankFilter, difficulty: e.target.value })}>
+                      <option value="All">All</option>
+                      <option value="Easy">Easy</option>
+                      <option value="Medium">Medium</option>
+                      <option value="Hard">Hard</option>
+                  </select>
+              </div>
+              <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tag</label>
+                  <select className={selectClass} value={bankFilter.tag} onChange={(e) => setBankFilter({ ...bankFilter, tag: e.target.value })}>
+                      <option value="All">All</option>
+                      {bankTagList.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                  </select>
+              </div>
+              <div className="flex items-end">
+                  <Button variant="ghost" className="text-sm w-full" onClick={() => setBankFilter({ subject: "All", difficulty: "All", tag: "All", search: "" })}>Clear Filters</Button>
+              </div>
+          </Card>
+
+          <Card>
+              <h2 className="text-lg font-bold text-slate-800 mb-1">Random Draw</h2>
+              <p className="text-sm text-slate-500 mb-4">Pick how many questions to draw for each tag from the filtered questions below.</p>
+              {drawTags.length === 0 ? (
+                  <p className="text-sm text-slate-400 italic">No tagged questions match the filters.</p>
+              ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                      {drawTags.map(tag => (
+                          <label key={tag} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-slate-200 text-sm">
+                              <span className="text-slate-700 truncate" title={tag}>{tag} <span className="text-slate-400">({filteredBank.filter(q => q.tags.includes(tag)).length})</span></span>
+                              <input type="number" min="0" value={drawCounts[tag] || 0} onChange={(e) => setDrawCounts({ ...drawCounts, [tag]: Math.max(0, parseInt(e.target.value) || 0) })} className="w-16 p-1 border border-slate-200 rounded text-right" />
+                          </label>
+                      ))}
+                  </div>
+              )}
+              <Button onClick={() => drawFromBank(filteredBank)} disabled={drawTags.length === 0}>Draw Quiz</Button>
+          </Card>
+
+          <div className="space-y-4">
+              {filteredBank.length === 0 ? (
+                  <div className="py-12 text-center text-slate-400 bg-white rounded-xl border-2 border-dashed border-slate-200">
+                      <p className="text-lg font-medium">No questions found.</p>
+                      <p className="text-sm">Save questions from the quiz review screen to build your bank.</p>
+                  </div>
+              ) : filteredBank.map(q => (
+                  <Card key={q.id} className={selectedBankIds.includes(q.id) ? "border-indigo-300 ring-1 ring-indigo-200" : ""}>
+                      <div className="flex gap-4">
+                          <input type="checkbox" checked={selectedBankIds.includes(q.id)} onChange={() => toggleSelected(q.id)} className="mt-1 w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                          <div className="flex-1">
+                              <p className="font-medium text-slate-800 mb-3">{q.text}</p>
+                              {q.type === undefined || q.type === "mcq" || q.type === "multi-select" ? (
+                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-3">
+                                      {q.options.map((opt, optIdx) => {
+                                          const correct = q.type === "multi-select" ? q.correctIndices.includes(optIdx) : optIdx === q.correctIndex;
+                                          return <p key={optIdx} className={`text-sm px-3 py-1.5 rounded ${correct ? 'bg-emerald-50 text-emerald-700 font-medium' : 'bg-slate-50 text-slate-600'}`}>{letter(optIdx)}. {opt}</p>;
+                                      })}
+                                  </div>
+                              ) : (
+                                  <p className="text-sm px-3 py-1.5 rounded bg-emerald-50 text-emerald-700 font-medium mb-3">{describeCorrect(q)}</p>
+                              )}
+                              <div className="flex flex-wrap items-center gap-2 text-xs">
+                                  <span className="px-2 py-0.5 rounded-full bg-violet-50 text-violet-700 font-semibold">{QUESTION_TYPE_LABELS[questionType(q)]}</span>
+                                  <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 font-semibold">{q.subject}</span>
+                                  <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 font-semibold">{q.difficulty}</span>
+                                  {q.tags.map(tag => <span key={tag} className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">#{tag}</span>)}
+                                  <span className="text-slate-400 ml-auto">
+                                      Used in {q.usage.timesUsed} quiz{q.usage.timesUsed === 1 ? "" : "zes"}
+                                      {q.usage.attempts > 0 && ` · ${Math.round((q.usage.correct / q.usage.attempts) * 100)}% correct of ${q.usage.attempts}`}
+                                  </span>
+                              </div>
+                          </div>
+                          <button onClick={() => deleteItem("questionBank", q.id)} className="self-start text-red-400 hover:text-red-600 text-xs font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors">Delete</button>
+                      </div>
+                  </Card>
+              ))}
+          </div>
+
+          <div className="fixed bottom-0 left-0 w-full bg-white border-t border-slate-200 p-4 z-40">
+             <div className="max-w-5xl mx-auto flex justify-between items-center">
+                 <p className="text-sm text-slate-500">{selectedBankIds.length} selected</p>
+                 <Button onClick={() => createQuizFromBank(bank.filter(q => selectedBankIds.includes(q.id)))} disabled={selectedBankIds.length === 0}>Create Quiz from Selected</Button>
+             </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (view === "teacher-students") {
+    const inputClass = "p-3 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500";
+    return (
+      <div className="min-h-screen bg-slate-50">
+        {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        <Header title="Students" onBack={() => setView("teacher-dash")} />
+        <main className="max-w-4xl mx-auto p-6 space-y-8">
+          <Card>
+            <h2 className="text-lg font-bold text-slate-800 mb-1">Add Student</h2>
+            <p className="text-sm text-slate-500 mb-4">Students sign in with their roll number and PIN. Share the PIN with them privately.</p>
+            <div className="grid md:grid-cols-4 gap-3">
+              <input type="text" value={newStudent.rollNumber} onChange={(e) => setNewStudent({ ...newStudent, rollNumber: e.target.value })} placeholder="Roll No." className={`${inputClass} uppercase`} />
+              <input type="text" value={newStudent.name} onChange={(e) => setNewStudent({ ...newStudent, name: e.target.value })} placeholder="Full name" className={inputClass} />
+              <input type="text" inputMode="numeric" value={newStudent.pin} onChange={(e) => setNewStudent({ ...newStudent, pin: e.target.value.replace(/\D/g, "").slice(0, 6) })} placeholder="PIN (4-6 digits)" className={`${inputClass} font-mono`} />
+              <Button onClick={addStudent} disabled={isSavingStudent}>{isSavingStudent ? "Adding..." : "Add"}</Button>
+            </div>
+          </Card>
+
+          <Card className="!p-0 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 border-b border-slate-100">
+                <tr>
+                  <th className="px-6 py-3 text-left font-semibold text-slate-500">Roll No.</th>
+                  <th className="px-6 py-3 text-left font-semibold text-slate-500">Name</th>
+                  <th className="px-6 py-3 text-left font-semibold text-slate-500">Batches</th>
+                  <th className="px-6 py-3 text-right font-semibold text-slate-500">Attempts</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {roster.length === 0 ? (
+                  <tr><td colSpan={5} className="px-6 py-12 text-center text-slate-400">No students yet.</td></tr>
+                ) : roster.map(s => {
+                  const studentBatchIds = batchesOf(enrollments, s.id);
+                  return (
+                    <tr key={s.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-3 font-mono text-slate-600">{s.rollNumber}</td>
+                      <td className="px-6 py-3 font-medium text-slate-800">{s.name}</td>
+                      <td className="px-6 py-3 text-slate-500">{batches.filter(b => studentBatchIds.includes(b.id)).map(b => b.name).join(", ") || "—"}</td>
+                      <td className="px-6 py-3 text-right text-slate-600">{results.filter(r => r.studentId === s.id).length}</td>
+                      <td className="px-6 py-3 text-right space-x-4">
+                        <button onClick={() => openProgress(s.id, s.name, "teacher-students")} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Progress</button>
+                        <button onClick={() => resetStudentPin(s)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Reset PIN</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (view === "teacher-batches") {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        <Header title="Batches" onBack={() => setView("teacher-dash")} />
+        <main className="max-w-4xl mx-auto p-6 space-y-8">
+          <Card>
+            <h2 className="text-lg font-bold text-slate-800 mb-1">New Batch</h2>
+            <p className="text-sm text-slate-500 mb-4">Students join with the code shown on the batch. Assign quizzes and notes from the dashboard.</p>
+            <div className="flex gap-3">
+              <input type="text" value={newBatchName} onChange={(e) => setNewBatchName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && createBatch()} placeholder="e.g. Class 10 Morning" className="flex-1 p-3 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500" />
+              <Button onClick={createBatch}>Create</Button>
+            </div>
+          </Card>
+
+          {batches.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">No batches yet.</p>
+          ) : batches.map(batch => {
+            const members = enrollments.filter(e => e.batchId === batch.id).sort((a, b) => a.studentName.localeCompare(b.studentName));
+            const assigned = quizzes.filter(q => q.batchIds?.includes(batch.id)).length;
+            return (
+              <Card key={batch.id}>
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h3 className="text-lg font-bold text-slate-800">{batch.name}</h3>
+                    <p className="text-sm text-slate-500">{members.length} student{members.length === 1 ? "" : "s"} · {assigned} quiz{assigned === 1 ? "" : "zes"}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs font-bold text-slate-400 uppercase">Join Code</p>
+                    <p className="font-mono text-xl font-bold tracking-widest text-indigo-600">{batchCodes[batch.id] || "—"}</p>
+                  </div>
+                </div>
+                {members.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {members.map(m => (
+                      <span key={m.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-xs font-medium bg-slate-100 text-slate-700">
+                        {m.studentName}
+                        <button onClick={() => deleteItem("enrollments", m.id)} className="w-5 h-5 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50" title="Remove from batch">×</button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2 pt-4 border-t border-slate-100">
+                  <Button variant="secondary" className="text-sm" onClick={() => { setBatchFilter(batch.id); setView("teacher-dash"); }}>View Stats</Button>
+                  <Button variant="danger" className="text-sm ml-auto" onClick={() => deleteBatch(batch)}>Delete</Button>
+                </div>
+              </Card>
+            );
+          })}
+        </main>
       </div>
     );
   }
 
   if (view === "student-dash") {
-    const allSubjects = ["All", ...Array.from(new Set(quizzes.map(q => q.subject || "General")))];
-    const filteredQuizzes = filterSubject === "All" ? quizzes : quizzes.filter(q => (q.subject || "General") === filterSubject);
-    const myResults = results.filter(r => r.studentName.toLowerCase() === studentName.toLowerCase()).slice(0, 3);
+    const myBatchIds = batchesOf(enrollments, studentId);
+    const myBatches = batches.filter(b => myBatchIds.includes(b.id));
+    const activeBatch = myBatchIds.includes(batchFilter) ? batchFilter : "All";
+    const visibleQuizzes = quizzes.filter(q => isAssignedTo(q, myBatchIds) && (activeBatch === "All" || !!q.batchIds?.includes(activeBatch)));
+    const allSubjects = ["All", ...Array.from(new Set(visibleQuizzes.map(q => q.subject || "General")))];
+    const filteredQuizzes = filterSubject === "All" ? visibleQuizzes : visibleQuizzes.filter(q => (q.subject || "General") === filterSubject);
+    const myResults = results.filter(r => resultStudentId(r) === studentId);
+    const quizzesByAvailability: Record<Availability, PublishedQuiz[]> = { open: [], upcoming: [], closed: [] };
+    filteredQuizzes.forEach(q => quizzesByAvailability[quizAvailability(q, now)].push(q));
+    quizzesByAvailability.upcoming.sort((a, b) => (a.opensAt ?? 0) - (b.opensAt ?? 0));
     
-    const streak = calculateStreak(studentName, results);
-    const hasMaster = hasGrammarMaster(studentName, results);
-    const hasAnyTop3 = results.some(r => r.studentName.toLowerCase() === studentName.toLowerCase() && isTop3(studentName, r.quizId, results));
+    const streak = calculateStreak(studentId, results);
+    const hasMaster = hasGrammarMaster(studentId, results);
+    const hasAnyTop3 = quizzes.some(q => isTopThree(results, q, studentId));
+    const dueToday = dueCards(reviewCards, now);
 
     return (
       <div className="min-h-screen bg-slate-50">
         {toast && <Toast {...toast} onClose={() => setToast(null)} />}
-        <Header title="Student Portal" onBack={() => setView("landing")} />
+        <Header title="Student Portal" onBack={() => setView("landing")} rightContent={<Button variant="ghost" className="text-sm" onClick={handleSignOut}>Sign Out</Button>} />
         <main className="max-w-6xl mx-auto p-6">
           <Card className="mb-8 !p-8 border-indigo-100">
              <h2 className="text-2xl font-bold text-slate-800 mb-2">Welcome Back, {studentName || 'Student'}!</h2>
-             <p className="text-slate-500 mb-6">Ready to learn something new today?</p>
-             <input type="text" value={studentName} onChange={(e) => setStudentName(e.target.value)} placeholder="Enter your full name to track progress..." className="w-full max-w-md p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none" />
+             <p className="text-slate-500">Ready to learn something new today? <span className="text-slate-400">Roll No. {student?.rollNumber}</span></p>
+             <div className="mt-6 pt-6 border-t border-slate-100">
+                 <div className="flex flex-wrap items-center gap-2 mb-3">
+                     <span className="text-sm font-semibold text-slate-600">Your batches:</span>
+                     {myBatches.length === 0 ? <span className="text-sm text-slate-400">None yet</span> : myBatches.map(b => (
+                         <span key={b.id} className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700">{b.name}</span>
+                     ))}
+                 </div>
+                 <div className="flex gap-2 max-w-md">
+                     <input type="text" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} onKeyDown={(e) => e.key === "Enter" && joinBatch()} placeholder="Join code from your teacher" className="flex-1 p-2.5 border border-slate-300 rounded-lg font-mono uppercase tracking-widest text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+                     <Button variant="secondary" onClick={joinBatch} disabled={isJoining || !joinCode.trim()}>{isJoining ? "Joining..." : "Join Batch"}</Button>
+                 </div>
+             </div>
           </Card>
 
-          {studentName && (
+          {reviewCards.length > 0 && (
+              <Card className="mb-10 flex flex-wrap items-center justify-between gap-4 bg-gradient-to-r from-indigo-50 to-white">
+                  <div>
+                      <h3 className="text-lg font-bold text-slate-800">Today's Review</h3>
+                      <p className="text-sm text-slate-500">{dueToday.length > 0 ? `${dueToday.length} question${dueToday.length === 1 ? "" : "s"} you missed ${dueToday.length === 1 ? "is" : "are"} due.` : "All caught up. Missed questions come back here on schedule."} <span className="text-slate-400">{reviewCards.length} in your deck</span></p>
+                  </div>
+                  <Button onClick={startReview} disabled={dueToday.length === 0}>Start Review</Button>
+              </Card>
+          )}
+
+          {student && (
               <div className="mb-10">
                   <h3 className="text-lg font-bold text-slate-800 mb-4">Your Achievements</h3>
                   <div className="grid gap-4 md:grid-cols-3">
@@ -1151,9 +3346,47 @@ const App = () => {
               </div>
           )}
 
+          {student && (
+              <div className="mb-10">
+                  <Rankings results={resultsInBatch(activeBatch)} quizzes={visibleQuizzes} now={now} highlightId={studentId} limit={10} />
+              </div>
+          )}
+
+          {myResults.length > 0 && (
+              <div className="mb-10">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-bold text-slate-800">Past Attempts</h3>
+                      <Button variant="secondary" className="text-sm" onClick={() => openProgress(studentId, studentName, "student-dash")}>View Progress</Button>
+                  </div>
+                  <Card className="!p-0 overflow-hidden">
+                      <div className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+                          {myResults.map(r => (
+                              <div key={r.id} className="flex items-center justify-between gap-4 px-6 py-3 text-sm">
+                                  <div>
+                                      <p className="font-medium text-slate-800">{quizzes.find(q => q.id === r.quizId)?.title ?? "Removed quiz"}</p>
+                                      <p className="text-xs text-slate-400">{new Date(r.date).toLocaleString()}</p>
+                                  </div>
+                                  <div className="flex items-center gap-4">
+                                      <span className="font-bold text-indigo-600">{r.score}/{r.total}</span>
+                                      {/* Older results kept only the score */}
+                                      {r.quizVersion !== undefined && <Button variant="secondary" className="text-sm" onClick={() => openPastResult(r)}>Scorecard</Button>}
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  </Card>
+              </div>
+          )}
+
           <div className="mb-8">
             <div className="flex flex-col md:flex-row justify-between items-end md:items-center mb-6 gap-4 border-b border-slate-200 pb-4">
               <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0">
+                  {myBatches.length > 1 && (
+                      <select value={activeBatch} onChange={(e) => setBatchFilter(e.target.value)} className="px-3 py-1.5 rounded-full text-sm font-medium bg-white text-slate-600 border border-slate-200 outline-none">
+                          <option value="All">All batches</option>
+                          {myBatches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                      </select>
+                  )}
                   {allSubjects.map(sub => (
                       <button key={sub} onClick={() => setFilterSubject(sub)} className={`px-4 py-1.5 rounded-full text-sm font-medium transition-all whitespace-nowrap ${filterSubject === sub ? "bg-indigo-600 text-white shadow-md" : "bg-white text-slate-600 border border-slate-200 hover:bg-slate-50"}`}>{sub}</button>
                   ))}
@@ -1161,35 +3394,141 @@ const App = () => {
               <Button variant="secondary" onClick={() => setView("student-notes")}>Study Materials</Button>
             </div>
             
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {filteredQuizzes.length === 0 ? (
-                  <div className="col-span-full py-12 text-center text-slate-500">No quizzes available for this subject.</div>
-              ) : (
-                  filteredQuizzes.map(quiz => (
-                    <Card key={quiz.id} hover className="flex flex-col h-full group">
-                    <div className="flex-1">
-                        <div className="flex justify-between items-start mb-4">
-                            <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider">{quiz.subject || 'General'}</span>
-                            <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded">{quiz.durationMinutes || 10} min</span>
+            {filteredQuizzes.length === 0 ? (
+                <div className="py-12 text-center text-slate-500">No quizzes available for this subject.</div>
+            ) : (
+                <div className="space-y-10">
+                {SCHEDULE_SECTIONS.filter(section => quizzesByAvailability[section.availability].length > 0).map(section => (
+                    <div key={section.availability}>
+                        <h3 className="text-lg font-bold text-slate-800 mb-4">{section.title} <span className="text-sm font-normal text-slate-400">({quizzesByAvailability[section.availability].length})</span></h3>
+                        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                        {quizzesByAvailability[section.availability].map(quiz => {
+                            const left = attemptsLeft(quiz, countAttempts(results, quiz.id, studentId));
+                            const inProgress = openAttempts.find(a => a.quizId === quiz.id);
+                            const practiced = practiceSessions.filter(p => p.quizId === quiz.id);
+                            return (
+                                <Card key={quiz.id} hover={section.availability === "open"} className={`flex flex-col h-full group ${section.availability === "closed" ? "opacity-70" : ""}`}>
+                                <div className="flex-1">
+                                    <div className="flex justify-between items-start mb-4">
+                                        <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider">{quiz.subject || 'General'}</span>
+                                        <span className="text-xs bg-slate-100 text-slate-500 px-2 py-1 rounded">{quiz.durationMinutes || 10} min</span>
+                                    </div>
+                                    <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-indigo-600 transition-colors">{quiz.title}</h3>
+                                    <p className="text-slate-500 text-sm">{quiz.questions.length} Questions</p>
+                                    <div className="mt-3 space-y-1 text-xs font-medium">
+                                        {section.availability === "upcoming" && quiz.opensAt !== undefined && <p className="text-amber-600">Opens in {formatCountdown(quiz.opensAt - now)}</p>}
+                                        {section.availability === "open" && quiz.closesAt !== undefined && <p className={quiz.closesAt - now < 3600000 ? "text-red-600" : "text-emerald-600"}>Closes in {formatCountdown(quiz.closesAt - now)}</p>}
+                                        {section.availability === "closed" && quiz.closesAt !== undefined && <p className="text-slate-400">Closed {new Date(quiz.closesAt).toLocaleString()}</p>}
+                                        {inProgress && <p className="text-indigo-600">In progress · {secondsUntil(attemptEndsAt(inProgress, quiz)) > 0 ? `${formatCountdown(secondsUntil(attemptEndsAt(inProgress, quiz)) * 1000)} left` : "time's up, submit now"}</p>}
+                                        {quiz.maxAttempts !== undefined && student && <p className="text-slate-500">{left} of {quiz.maxAttempts} attempt{quiz.maxAttempts === 1 ? "" : "s"} left</p>}
+                                        {quiz.proctored && <p className="text-amber-600">Proctored · opens in fullscreen, tab switches are logged</p>}
+                                        {practiced.length > 0 && <p className="text-slate-500">Practised {practiced.length}× · best {Math.max(...practiced.map(p => p.firstTry))}/{quiz.questions.length} first try</p>}
+                                    </div>
+                                </div>
+                                <div className="mt-6 flex gap-2">
+                                    <Button onClick={() => startQuiz(quiz)} disabled={isStarting || (!inProgress && (section.availability !== "open" || left === 0))} className="flex-1">
+                                        {inProgress ? "Resume Quiz" : section.availability === "upcoming" ? "Not Open Yet" : section.availability === "closed" ? "Closed" : left === 0 ? "No Attempts Left" : "Start Quiz"}
+                                    </Button>
+                                    {!inProgress && practiceAvailable(quiz, countAttempts(results, quiz.id, studentId), now) && <Button variant="secondary" onClick={() => startPractice(quiz)}>Practice</Button>}
+                                </div>
+                                </Card>
+                            );
+                        })}
                         </div>
-                        <h3 className="text-xl font-bold text-slate-800 mb-2 group-hover:text-indigo-600 transition-colors">{quiz.title}</h3>
-                        <p className="text-slate-500 text-sm">{quiz.questions.length} Questions</p>
                     </div>
-                    <Button onClick={() => startQuiz(quiz)} fullWidth className="mt-6">Start Quiz</Button>
-                    </Card>
-                ))
-              )}
+                ))}
+                </div>
+            )}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (view === "student-quiz" && activeQuiz?.adaptive && attempt) {
+    const served: number[] = attempt.served ?? [];
+    const idx = served[served.length - 1];
+    const total = adaptiveLength(activeQuiz);
+    const order = attemptLayout(activeQuiz.questions, activeQuiz, attempt.seed).optionOrders[idx];
+    const q = permuteOptions(activeQuiz.questions[idx], order);
+    const passage = activeQuiz.passages?.find((p: Passage) => p.id === q.passageId);
+    const criticalTime = timeLeft < 60;
+    const isLast = served.length >= total;
+
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <div className="fixed top-0 left-0 w-full h-1 bg-slate-200 z-50">
+            <div className="h-full bg-indigo-600 transition-all duration-300 ease-out" style={{ width: `${Math.round(((attempt.responses?.length ?? 0) / total) * 100)}%` }}></div>
+        </div>
+        {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        <Header 
+          title={activeQuiz.title} 
+          onBack={leaveQuiz} 
+          rightContent={
+            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-lg font-mono font-bold ${criticalTime ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-slate-100 text-slate-700'}`}>
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
+              {formatTime(timeLeft)}
+            </div>
+          } 
+        />
+        <main className={`${passage ? 'max-w-6xl' : 'max-w-3xl'} mx-auto p-6 pb-24`}>
+          {activeQuiz.proctored && (
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                <p><strong>Proctored quiz.</strong> Leaving this tab, exiting fullscreen and copy/paste are recorded{activeQuiz.maxViolations !== undefined ? `; the quiz is submitted after ${activeQuiz.maxViolations}` : ""}. Violations so far: <strong>{violationCount}</strong></p>
+                {!isFullscreen && <Button variant="warning" className="text-xs" onClick={enterFullscreen}>Return to Fullscreen</Button>}
+            </div>
+          )}
+          <p className="mb-4 text-sm text-slate-500">Adaptive quiz: each answer is final, and the next question depends on it.</p>
+          <div className={passage ? "grid lg:grid-cols-2 gap-6 items-start" : ""}>
+            {passage && <PassageCard passage={passage} className="lg:sticky lg:top-20 lg:max-h-[calc(100vh-7rem)] lg:overflow-y-auto" />}
+            <div key={idx} id={`q-${idx}`} className="bg-white rounded-xl border border-slate-200 p-6">
+                <div className="flex gap-4">
+                    <span className="flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold bg-indigo-600 text-white">{served.length}</span>
+                    <div className="flex-1">
+                        <p className="text-lg font-medium text-slate-800 mb-4">{q.text}</p>
+                        <QuestionInput question={q} answer={toDisplayAnswer(answers[idx], order)} onAnswer={(a) => { const n = [...answers]; n[idx] = toCanonicalAnswer(a, order); setAnswers(n); }} />
+                    </div>
+                </div>
             </div>
           </div>
+
+          <div className="fixed bottom-0 left-0 w-full bg-white border-t border-slate-200 p-4 z-40">
+             <div className={`${passage ? 'max-w-6xl' : 'max-w-3xl'} mx-auto flex justify-between items-center`}>
+                 <p className="text-sm text-slate-500">Question {served.length} of {total}</p>
+                 <Button onClick={nextAdaptive} disabled={!isAnswered(answers[idx]) || isAdvancing || isSubmitting} className="px-8 shadow-lg shadow-indigo-200">{isSubmitting ? "Submitting..." : isAdvancing ? "Checking..." : isLast ? "Finish" : "Next"}</Button>
+             </div>
+          </div>
         </main>
       </div>
     );
   }
 
   if (view === "student-quiz" && activeQuiz) {
-    const isFinished = answers.every(a => a !== -1);
-    const progress = Math.round((answers.filter(a => a !== -1).length / activeQuiz.questions.length) * 100);
+    const answeredCount = answers.filter(isAnswered).length;
+    const isFinished = answeredCount === activeQuiz.questions.length;
+    const progress = Math.round((answeredCount / activeQuiz.questions.length) * 100);
     const criticalTime = timeLeft < 60;
+    const hasPassages = (activeQuiz.passages || []).length > 0;
+    const layout = attemptLayout(activeQuiz.questions, activeQuiz, attempt?.seed);
+    const shownQuestions = layout.questionOrder.map(idx => activeQuiz.questions[idx]);
+
+    // `position` is where the question appears in this attempt; answers stay in canonical order
+    const renderQuestion = (position: number) => {
+        const idx = layout.questionOrder[position];
+        const order = layout.optionOrders[idx];
+        const q = permuteOptions(activeQuiz.questions[idx], order);
+        return (
+            <div key={idx} id={`q-${idx}`} onPointerDown={() => trackQuestion(idx)} onFocus={() => trackQuestion(idx)} className={`bg-white rounded-xl border p-6 transition-all duration-300 ${isAnswered(answers[idx]) ? 'border-indigo-200 shadow-sm' : 'border-slate-200'}`}>
+                <div className="flex gap-4">
+                    <span className={`flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold ${isAnswered(answers[idx]) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>{position + 1}</span>
+                    <div className="flex-1">
+                        <p className="text-lg font-medium text-slate-800 mb-4">{q.text}</p>
+                        <QuestionInput question={q} answer={toDisplayAnswer(answers[idx], order)} onAnswer={(a) => { const n = [...answers]; n[idx] = toCanonicalAnswer(a, order); setAnswers(n); }} />
+                    </div>
+                </div>
+            </div>
+        );
+    };
 
     return (
       <div className="min-h-screen bg-slate-50">
@@ -1198,7 +3537,7 @@ const App = () => {
         </div>
         <Header 
           title={activeQuiz.title} 
-          onBack={() => { if (confirm("Quit? Progress lost.")) setView("student-dash"); }} 
+          onBack={leaveQuiz} 
           rightContent={
             <div className={`flex items-center gap-2 px-3 py-1.5 rounded-lg font-mono font-bold ${criticalTime ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-slate-100 text-slate-700'}`}>
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
@@ -1206,36 +3545,28 @@ const App = () => {
             </div>
           } 
         />
-        <main className="max-w-3xl mx-auto p-6 pb-24">
+        <main className={`${hasPassages ? 'max-w-6xl' : 'max-w-3xl'} mx-auto p-6 pb-24`}>
+          {activeQuiz.proctored && (
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                <p><strong>Proctored quiz.</strong> Leaving this tab, exiting fullscreen and copy/paste are recorded{activeQuiz.maxViolations !== undefined ? `; the quiz is submitted after ${activeQuiz.maxViolations}` : ""}. Violations so far: <strong>{violationCount}</strong></p>
+                {!isFullscreen && <Button variant="warning" className="text-xs" onClick={enterFullscreen}>Return to Fullscreen</Button>}
+            </div>
+          )}
           <div className="space-y-6">
-            {activeQuiz.questions.map((q, idx) => (
-                <div key={idx} id={`q-${idx}`} className={`bg-white rounded-xl border p-6 transition-all duration-300 ${answers[idx] !== -1 ? 'border-indigo-200 shadow-sm' : 'border-slate-200'}`}>
-                    <div className="flex gap-4">
-                        <span className={`flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold ${answers[idx] !== -1 ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>{idx + 1}</span>
-                        <div className="flex-1">
-                            <p className="text-lg font-medium text-slate-800 mb-4">{q.text}</p>
-                            <div className="space-y-3">
-                                {q.options.map((opt, optIdx) => (
-                                <button key={optIdx} onClick={() => { const n = [...answers]; n[idx] = optIdx; setAnswers(n); }} 
-                                    className={`w-full text-left p-4 rounded-lg border transition-all duration-200 flex items-center ${answers[idx] === optIdx ? "bg-indigo-50 border-indigo-500 ring-1 ring-indigo-500" : "bg-white border-slate-200 hover:bg-slate-50 hover:border-slate-300"}`}
-                                >
-                                    <span className={`w-6 h-6 rounded-full border flex items-center justify-center mr-3 text-xs ${answers[idx] === optIdx ? "bg-indigo-500 border-indigo-500 text-white" : "border-slate-300 text-slate-400"}`}>
-                                        {String.fromCharCode(65 + optIdx)}
-                                    </span>
-                                    <span className={`text-sm ${answers[idx] === optIdx ? "text-indigo-900 font-medium" : "text-slate-600"}`}>{opt}</span>
-                                </button>
-                                ))}
-                            </div>
-                        </div>
-                    </div>
+            {groupByPassage(shownQuestions, activeQuiz.passages).map((group, gIdx) => group.passage ? (
+                <div key={gIdx} className="grid lg:grid-cols-2 gap-6 items-start">
+                    <PassageCard passage={group.passage} className="lg:sticky lg:top-20 lg:max-h-[calc(100vh-7rem)] lg:overflow-y-auto" />
+                    <div className="space-y-6">{group.indices.map(renderQuestion)}</div>
                 </div>
+            ) : (
+                <React.Fragment key={gIdx}>{group.indices.map(renderQuestion)}</React.Fragment>
             ))}
           </div>
 
           <div className="fixed bottom-0 left-0 w-full bg-white border-t border-slate-200 p-4 z-40">
-             <div className="max-w-3xl mx-auto flex justify-between items-center">
-                 <p className="text-sm text-slate-500">{answers.filter(a => a !== -1).length} of {activeQuiz.questions.length} answered</p>
-                 <Button onClick={submitQuiz} disabled={!isFinished} className="px-8 shadow-lg shadow-indigo-200">Submit Quiz</Button>
+             <div className={`${hasPassages ? 'max-w-6xl' : 'max-w-3xl'} mx-auto flex justify-between items-center`}>
+                 <p className="text-sm text-slate-500">{answeredCount} of {activeQuiz.questions.length} answered</p>
+                 <Button onClick={submitQuiz} disabled={(!isFinished && timeLeft > 0) || isSubmitting} className="px-8 shadow-lg shadow-indigo-200">{isSubmitting ? "Submitting..." : "Submit Quiz"}</Button>
              </div>
           </div>
         </main>
@@ -1243,7 +3574,16 @@ const App = () => {
     );
   }
 
-  if (view === "student-result" && currentResult && activeQuiz) {
+  if (view === "student-result" && currentResult && activeQuiz && answerKey) {
+    const gradedQuiz = withAnswerKey(activeQuiz, answerKey);
+    const layout = servedLayout(attemptLayout(activeQuiz.questions, activeQuiz, currentResult.seed), resultDetail?.served);
+    const review = presentAttempt(gradedQuiz.questions, answers, layout);
+    const shownTimes = resultDetail ? layout.questionOrder.map(idx => resultDetail.timeSpent[idx] ?? 0) : undefined;
+    const myBatchIds = batchesOf(enrollments, studentId);
+    const myBatches = batches.filter(b => myBatchIds.includes(b.id));
+    const leaderboardBatch = myBatchIds.includes(batchFilter) ? batchFilter : "All";
+    // Hidden when the note was deleted or isn't assigned to the student's batches
+    const sourceNote = notes.find(n => n.id === activeQuiz.noteId && isAssignedTo(n, myBatchIds));
     const percentage = Math.round((currentResult.score / currentResult.total) * 100);
     const passed = percentage >= 80;
 
@@ -1256,51 +3596,50 @@ const App = () => {
           <Card className="text-center py-12 relative overflow-hidden bg-gradient-to-br from-white to-slate-50">
             {passed && <div className="absolute top-6 right-6 text-4xl animate-bounce">🏆</div>}
             
-            <p className="text-slate-500 uppercase tracking-widest text-xs font-bold mb-4">Quiz Completed</p>
+            <p className="text-slate-500 uppercase tracking-widest text-xs font-bold mb-4">{activeQuiz.title} · {new Date(currentResult.date).toLocaleString()}</p>
             <div className="text-7xl font-bold text-slate-900 mb-2 tracking-tighter">{percentage}%</div>
-            <p className="text-xl text-slate-600 mb-8">You scored <strong className="text-indigo-600">{currentResult.score}</strong>/{currentResult.total}</p>
+            <p className={`text-xl text-slate-600 ${currentResult.level ? "mb-2" : "mb-8"}`}>You scored <strong className="text-indigo-600">{currentResult.score}</strong>/{currentResult.total}</p>
+            {currentResult.level && <p className="text-slate-500 mb-8">Estimated level: <strong className="text-slate-800">{currentResult.level}</strong></p>}
             
             <div className="flex justify-center gap-4">
                 {passed && <Button variant="warning" onClick={() => downloadCertificate(studentName, activeQuiz.title, currentResult.score, currentResult.total)}>Download Certificate</Button>}
-                <Button variant="secondary" onClick={() => downloadDetailedReport(studentName, activeQuiz, answers, currentResult.score, currentResult.total)}>Download Scorecard</Button>
+                <Button variant="secondary" onClick={() => downloadDetailedReport(studentName, gradedQuiz, answers, currentResult, layout, resultDetail?.timeSpent)}>Download Scorecard</Button>
+                {sourceNote && <Button variant="ghost" onClick={() => openNote(sourceNote, false)} disabled={loadingNoteId === sourceNote.id}>Revise this material</Button>}
             </div>
           </Card>
 
           <div className="grid md:grid-cols-2 gap-8">
             <div className="space-y-6">
               <h3 className="text-xl font-bold text-slate-800">Review</h3>
-              {activeQuiz.questions.map((q, i) => {
-                const isCorrect = answers[i] === q.correctIndex;
-                return (
-                  <Card key={i} className={`!p-5 border-l-4 ${isCorrect ? 'border-l-emerald-500' : 'border-l-red-500'}`}>
-                    <p className="font-medium text-slate-800 mb-3">{i+1}. {q.text}</p>
-                    <div className="text-sm space-y-2">
-                        <p className={isCorrect ? "text-emerald-700 font-medium" : "text-red-600 line-through"}>
-                           {answers[i] === -1 ? "Skipped" : `You: ${q.options[answers[i]]}`}
-                        </p>
-                        {!isCorrect && <p className="text-emerald-700 font-medium">Correct: {q.options[q.correctIndex]}</p>}
-                    </div>
-                  </Card>
-                );
-              })}
+              <AttemptReview questions={review.questions} answers={review.answers} timeSpent={shownTimes} />
             </div>
             
             <div className="space-y-6">
-               <h3 className="text-xl font-bold text-slate-800">Leaderboard</h3>
+               <div className="flex justify-between items-center">
+                   <h3 className="text-xl font-bold text-slate-800">Leaderboard</h3>
+                   {myBatches.length > 0 && (
+                       <select value={leaderboardBatch} onChange={(e) => setBatchFilter(e.target.value)} className="p-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600 outline-none">
+                           <option value="All">Everyone</option>
+                           {myBatches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                       </select>
+                   )}
+               </div>
                <Card className="!p-0 overflow-hidden">
                    <table className="w-full text-sm">
                        <thead className="bg-slate-50 border-b border-slate-100">
                            <tr>
                                <th className="px-6 py-3 text-left font-semibold text-slate-500">Rank</th>
                                <th className="px-6 py-3 text-left font-semibold text-slate-500">Student</th>
+                               <th className="px-6 py-3 text-right font-semibold text-slate-500">Time</th>
                                <th className="px-6 py-3 text-right font-semibold text-slate-500">Score</th>
                            </tr>
                        </thead>
                        <tbody className="divide-y divide-slate-100">
-                           {getLeaderboard(activeQuiz.id).slice(0, 10).map((r, i) => (
-                               <tr key={i} className={r.studentName === studentName ? "bg-indigo-50/50" : ""}>
+                           {getLeaderboard(activeQuiz, leaderboardBatch).slice(0, 10).map((r, i) => (
+                               <tr key={i} className={resultStudentId(r) === studentId ? "bg-indigo-50/50" : ""}>
                                    <td className="px-6 py-3 font-mono text-slate-400">#{i + 1}</td>
                                    <td className="px-6 py-3 font-medium text-slate-700">{r.studentName}</td>
+                                   <td className="px-6 py-3 text-right font-mono text-xs text-slate-400">{r.timeTaken !== undefined ? formatSeconds(r.timeTaken) : "—"}</td>
                                    <td className="px-6 py-3 text-right font-bold text-indigo-600">{r.score}</td>
                                </tr>
                            ))}
@@ -1329,40 +3668,107 @@ const App = () => {
                     <h2 className="text-lg font-bold text-slate-800 mb-4">Upload New Material</h2>
                     <div className="space-y-4">
                         <input type="text" value={noteTitle} onChange={(e) => setNoteTitle(e.target.value)} placeholder="Title (e.g. Chapter 1 Summary)" className="w-full p-3 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500" />
-                        <input type="file" accept="application/pdf" onChange={(e) => setNoteFile(e.target.files ? e.target.files[0] : null)} className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100" />
-                        <Button onClick={handleUploadNote}>Upload</Button>
+                        <input type="file" accept={Object.keys(NOTE_MIME_TYPES).join(",")} onChange={(e) => setNoteFile(e.target.files ? e.target.files[0] : null)} className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100" />
+                        {noteFile && (
+                            <p className={`text-xs ${noteFileError(noteFile) ? "text-red-600" : "text-slate-500"}`}>{noteFileError(noteFile) ?? `${noteFile.name} · ${formatBytes(noteFile.size)}`}</p>
+                        )}
+                        {batches.length > 0 && <BatchPicker batches={batches} selected={noteBatchIds} onChange={setNoteBatchIds} />}
+                        {noteUploadProgress !== null && (
+                            <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                                <div className="bg-indigo-500 h-2 rounded-full transition-all" style={{ width: `${Math.round(noteUploadProgress * 100)}%` }}></div>
+                            </div>
+                        )}
+                        <Button onClick={handleUploadNote} disabled={noteUploadProgress !== null}>{noteUploadProgress !== null ? `Uploading ${Math.round(noteUploadProgress * 100)}%...` : "Upload"}</Button>
                     </div>
                 </Card>
                 <div className="space-y-4">
                     {notes.map(note => (
-                        <Card key={note.id} className="flex items-center justify-between">
-                            <div className="flex items-center gap-4">
-                                <div className="p-3 bg-red-50 text-red-500 rounded-lg"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 2H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg></div>
-                                <div><h4 className="font-bold text-slate-800">{note.title}</h4><p className="text-xs text-slate-500">{new Date(note.createdAt).toLocaleDateString()}</p></div>
+                        <Card key={note.id}>
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-4">
+                                    <div className="p-3 bg-red-50 text-red-500 rounded-lg"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 2H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg></div>
+                                    <div>
+                                        <h4 className="font-bold text-slate-800">{note.title}</h4>
+                                        <p className="text-xs text-slate-500">{new Date(note.createdAt).toLocaleDateString()}{note.size !== undefined && ` · ${formatBytes(note.size)}`}</p>
+                                        {isLegacyNote(note) && <p className="text-xs text-amber-600">Stored inline; run <code>npm run migrate-notes</code> to move it to Storage</p>}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button variant="secondary" className="text-sm" onClick={() => setQuizNote(note)}>Generate Quiz</Button>
+                                    <Button variant="secondary" className="text-sm" onClick={() => openStudyPack(note)} disabled={generatingPackFor !== null}>{generatingPackFor === note.id ? "Generating..." : studyPacks.some(p => p.noteId === note.id) ? "Edit Study Pack" : "Study Pack"}</Button>
+                                    <Button variant="secondary" className="text-sm" onClick={() => openNote(note, false)} disabled={loadingNoteId === note.id}>View</Button>
+                                    <Button variant="danger" className="text-sm" onClick={() => deleteItem("notes", note.id)}>Delete</Button>
+                                </div>
                             </div>
-                            <Button variant="danger" className="text-sm" onClick={() => deleteItem("notes", note.id)}>Delete</Button>
+                            {batches.length > 0 && <div className="mt-4 pt-4 border-t border-slate-100"><BatchPicker batches={batches} selected={note.batchIds} onChange={(ids) => assignBatches("notes", note.id, ids)} /></div>}
                         </Card>
                     ))}
                 </div>
              </main>
+             {quizNote && (
+                 <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                     <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md animate-fade-in-up">
+                         <div className="flex justify-between items-center mb-2">
+                             <h3 className="text-xl font-bold text-slate-900">Generate Quiz</h3>
+                             <button onClick={() => setQuizNote(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                         </div>
+                         <p className="text-sm text-slate-500 mb-6">From "{quizNote.title}". The quiz opens for review before it is published.</p>
+                         <div className="space-y-4">
+                             <div className="grid grid-cols-2 gap-4">
+                                 <div>
+                                     <label className="block text-sm font-semibold text-slate-700 mb-2">Questions</label>
+                                     <input type="number" min="1" max="20" value={numQuestions} onChange={(e) => setNumQuestions(parseInt(e.target.value) || 5)} className="w-full p-3 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-slate-50" />
+                                 </div>
+                                 <div>
+                                     <label className="block text-sm font-semibold text-slate-700 mb-2">Difficulty</label>
+                                     <select className="w-full p-3 border border-slate-200 rounded-lg bg-white" value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)}>
+                                         <option value="Easy">Easy</option>
+                                         <option value="Medium">Medium</option>
+                                         <option value="Hard">Hard</option>
+                                     </select>
+                                 </div>
+                             </div>
+                             <label className="flex items-center gap-3 p-3 border border-slate-200 rounded-lg bg-white cursor-pointer">
+                                 <input type="checkbox" checked={withPassage} onChange={(e) => setWithPassage(e.target.checked)} className="w-4 h-4 text-indigo-600 border-gray-300 rounded" />
+                                 <span className="text-sm text-slate-700">Reading comprehension <span className="text-slate-400">(passage + questions)</span></span>
+                             </label>
+                             <Button onClick={generateFromNote} disabled={isGenerating} fullWidth>
+                                 {isGenerating ? <div className="flex items-center justify-center gap-2"><div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> Generating...</div> : "Generate Quiz"}
+                             </Button>
+                         </div>
+                     </div>
+                 </div>
+             )}
           </div>
       )
   }
 
   if (view === "student-notes") {
+      const myBatchIds = batchesOf(enrollments, studentId);
+      const myNotes = notes.filter(n => isAssignedTo(n, myBatchIds));
       return (
           <div className="min-h-screen bg-slate-50">
              <Header title="Study Materials" onBack={() => setView("student-dash")} />
              <main className="max-w-4xl mx-auto p-6 grid gap-6 md:grid-cols-2">
-                 {notes.length === 0 ? <p className="col-span-full text-center text-slate-500 py-12">No materials available.</p> : notes.map(note => (
+                 {myNotes.length === 0 ? <p className="col-span-full text-center text-slate-500 py-12">No materials available.</p> : myNotes.map(note => (
                      <Card key={note.id} hover className="flex flex-col">
                          <div className="flex items-center gap-4 mb-4">
                              <div className="p-3 bg-indigo-50 text-indigo-600 rounded-lg"><svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg></div>
-                             <div><h3 className="font-bold text-slate-800">{note.title}</h3><p className="text-xs text-slate-500">{new Date(note.createdAt).toLocaleDateString()}</p></div>
+                             <div><h3 className="font-bold text-slate-800">{note.title}</h3><p className="text-xs text-slate-500">{new Date(note.createdAt).toLocaleDateString()}{note.size !== undefined && ` · ${formatBytes(note.size)}`}</p></div>
                          </div>
                          <div className="mt-auto grid grid-cols-2 gap-3">
-                             <Button variant="secondary" className="text-sm" onClick={() => openBase64PDF(note.fileData, note.mimeType)}>View</Button>
-                             <Button className="text-sm" onClick={() => downloadBase64File(note.fileData, note.fileName, note.mimeType)}>Download</Button>
+                             <Button variant="secondary" className="text-sm" onClick={() => openNote(note, false)} disabled={loadingNoteId === note.id}>View</Button>
+                             <Button className="text-sm" onClick={() => openNote(note, true)} disabled={loadingNoteId === note.id}>{loadingNoteId === note.id ? "Loading..." : "Download"}</Button>
+                             {(() => {
+                                 const pack = studyPacks.find(p => p.noteId === note.id);
+                                 if (!pack) return null;
+                                 const known = knownCards(pack, studyProgress.find(p => p.noteId === note.id) ?? null);
+                                 return (
+                                     <Button variant="warning" className="text-sm col-span-2" onClick={() => startStudy(note.id)}>
+                                         Study{pack.flashcards.length > 0 && ` · ${known}/${pack.flashcards.length} cards known`}
+                                     </Button>
+                                 );
+                             })()}
                          </div>
                      </Card>
                  ))}
@@ -1371,11 +3777,467 @@ const App = () => {
       )
   }
 
+  if (view === "teacher-study-pack" && studyPackDraft) {
+      const note = notes.find(n => n.id === studyPackDraft.noteId);
+      const inputClass = "w-full p-2 bg-white border border-slate-200 rounded text-sm text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none";
+      const removeButton = (onClick: () => void) => (
+          <button onClick={onClick} className="text-red-400 hover:text-red-600 text-xs font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors">Delete</button>
+      );
+      const isSaved = studyPacks.some(p => p.noteId === studyPackDraft.noteId);
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title={`Study Pack: ${note?.title ?? "Removed note"}`} onBack={() => setView("teacher-notes")} />
+              <main className="max-w-4xl mx-auto p-6 space-y-6">
+                  <div className="flex items-center justify-between">
+                      <div>
+                          <h2 className="text-2xl font-bold text-slate-800">Review & Edit Study Pack</h2>
+                          <p className="text-sm text-slate-500">{isSaved ? `Saved ${new Date(studyPackDraft.updatedAt).toLocaleString()}` : "Draft; students see it once saved."}</p>
+                      </div>
+                      <div className="flex gap-2">
+                          {note && <Button variant="ghost" onClick={() => confirm("Replace this pack with a new draft from the note?") && openStudyPack(note, true)} disabled={generatingPackFor !== null}>{generatingPackFor ? "Generating..." : "Regenerate"}</Button>}
+                          {isSaved && <Button variant="danger" onClick={deleteStudyPack}>Delete</Button>}
+                          <Button onClick={saveStudyPack}>Save</Button>
+                      </div>
+                  </div>
+
+                  <Card>
+                      <div className="flex justify-between items-center mb-4">
+                          <h3 className="font-bold text-slate-800">Summary</h3>
+                          <Button variant="secondary" className="text-sm" onClick={() => updateStudyPack({ summary: [...studyPackDraft.summary, ""] })}>+ Add Point</Button>
+                      </div>
+                      <div className="space-y-2">
+                          {studyPackDraft.summary.map((point, i) => (
+                              <div key={i} className="flex gap-2 items-start">
+                                  <span className="text-slate-400 pt-2">•</span>
+                                  <textarea value={point} rows={2} onChange={(e) => updateStudyPack({ summary: studyPackDraft.summary.map((p, j) => j === i ? e.target.value : p) })} className={inputClass} />
+                                  {removeButton(() => updateStudyPack({ summary: studyPackDraft.summary.filter((_, j) => j !== i) }))}
+                              </div>
+                          ))}
+                      </div>
+                  </Card>
+
+                  <Card>
+                      <div className="flex justify-between items-center mb-4">
+                          <h3 className="font-bold text-slate-800">Key Vocabulary</h3>
+                          <Button variant="secondary" className="text-sm" onClick={() => updateStudyPack({ vocabulary: [...studyPackDraft.vocabulary, { term: "", meaning: "" }] })}>+ Add Term</Button>
+                      </div>
+                      <div className="space-y-2">
+                          {studyPackDraft.vocabulary.map((v, i) => {
+                              const updateEntry = (patch: Partial<VocabularyEntry>) => updateStudyPack({ vocabulary: studyPackDraft.vocabulary.map((e, j) => j === i ? { ...e, ...patch } : e) });
+                              return (
+                                  <div key={i} className="flex gap-2 items-center">
+                                      <input type="text" value={v.term} onChange={(e) => updateEntry({ term: e.target.value })} placeholder="Term" className={`${inputClass} md:w-1/3 font-semibold`} />
+                                      <input type="text" value={v.meaning} onChange={(e) => updateEntry({ meaning: e.target.value })} placeholder="Meaning" className={inputClass} />
+                                      {removeButton(() => updateStudyPack({ vocabulary: studyPackDraft.vocabulary.filter((_, j) => j !== i) }))}
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </Card>
+
+                  <Card>
+                      <div className="flex justify-between items-center mb-4">
+                          <h3 className="font-bold text-slate-800">Flashcards <span className="text-sm font-normal text-slate-400">({studyPackDraft.flashcards.length})</span></h3>
+                          <Button variant="secondary" className="text-sm" onClick={() => updateStudyPack({ flashcards: [...studyPackDraft.flashcards, { id: crypto.randomUUID(), front: "", back: "" }] })}>+ Add Card</Button>
+                      </div>
+                      <div className="grid gap-3 md:grid-cols-2">
+                          {studyPackDraft.flashcards.map((c, i) => {
+                              const updateCard = (patch: Partial<Flashcard>) => updateStudyPack({ flashcards: studyPackDraft.flashcards.map(f => f.id === c.id ? { ...f, ...patch } : f) });
+                              return (
+                                  <div key={c.id} className="p-3 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+                                      <div className="flex justify-between items-center">
+                                          <span className="text-xs font-bold text-indigo-600 uppercase">Card {i + 1}</span>
+                                          {removeButton(() => updateStudyPack({ flashcards: studyPackDraft.flashcards.filter(f => f.id !== c.id) }))}
+                                      </div>
+                                      <textarea value={c.front} rows={2} onChange={(e) => updateCard({ front: e.target.value })} placeholder="Front (question or cue)" className={`${inputClass} font-medium`} />
+                                      <textarea value={c.back} rows={2} onChange={(e) => updateCard({ back: e.target.value })} placeholder="Back (answer)" className={inputClass} />
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </Card>
+              </main>
+          </div>
+      );
+  }
+
+  if (view === "student-study" && studyNoteId) {
+      const pack = studyPacks.find(p => p.noteId === studyNoteId);
+      const note = notes.find(n => n.id === studyNoteId);
+      if (!pack) {
+          return (
+              <div className="min-h-screen bg-slate-50">
+                  <Header title="Study" onBack={() => setView("student-notes")} />
+                  <main className="max-w-3xl mx-auto p-6"><p className="py-12 text-center text-slate-500">This study pack has been removed.</p></main>
+              </div>
+          );
+      }
+      const progress = studyProgress.find(p => p.noteId === studyNoteId) ?? null;
+      const known = knownCards(pack, progress);
+      const total = pack.flashcards.length;
+      // Cards edited away mid-round are skipped
+      const round = studyQueue.map(id => pack.flashcards.find(c => c.id === id)).filter((c): c is Flashcard => !!c);
+      const card = round[studyPos];
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title={`Study: ${note?.title ?? "Study Pack"}`} onBack={() => setView("student-notes")} rightContent={total > 0 && <span className="text-sm font-medium text-emerald-600">{known}/{total} known</span>} />
+              <main className="max-w-3xl mx-auto p-6 space-y-8">
+                  {total > 0 && (
+                      <div className="space-y-4">
+                          <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                              <div className="bg-emerald-500 h-2 rounded-full transition-all" style={{ width: `${(known / total) * 100}%` }}></div>
+                          </div>
+                          {card ? (
+                              <>
+                                  <button onClick={() => setStudyFlipped(!studyFlipped)} className={`w-full min-h-[240px] p-8 rounded-2xl border-2 shadow-sm flex flex-col items-center justify-center text-center transition-colors ${studyFlipped ? "bg-indigo-50 border-indigo-200" : "bg-white border-slate-200 hover:border-indigo-200"}`}>
+                                      <span className="text-xs font-bold uppercase tracking-wide text-slate-400 mb-4">{studyFlipped ? "Answer" : `Card ${studyPos + 1} of ${round.length}`}</span>
+                                      <p className={`text-xl ${studyFlipped ? "text-indigo-900" : "font-medium text-slate-800"}`}>{studyFlipped ? card.back : card.front}</p>
+                                      {!studyFlipped && <span className="mt-6 text-sm text-slate-400">Click to flip</span>}
+                                  </button>
+                                  <div className="grid grid-cols-2 gap-3">
+                                      <Button variant="secondary" onClick={() => markFlashcard(card, false)} disabled={!studyFlipped}>Still Learning</Button>
+                                      <Button onClick={() => markFlashcard(card, true)} disabled={!studyFlipped}>Got It</Button>
+                                  </div>
+                              </>
+                          ) : (
+                              <Card className="text-center py-10">
+                                  <p className="text-lg font-bold text-slate-800 mb-1">Round complete!</p>
+                                  <p className="text-slate-500 mb-6">{known === total ? "You know every card in this deck." : `${total - known} card${total - known === 1 ? "" : "s"} still to learn.`}</p>
+                                  <Button onClick={() => startStudy(studyNoteId)}>{known === total ? "Go Through All Again" : "Study Remaining Cards"}</Button>
+                              </Card>
+                          )}
+                      </div>
+                  )}
+
+                  {pack.summary.length > 0 && (
+                      <Card>
+                          <h3 className="text-lg font-bold text-slate-800 mb-4">Summary</h3>
+                          <ul className="space-y-2 list-disc pl-5 text-slate-700">
+                              {pack.summary.map((point, i) => <li key={i}>{point}</li>)}
+                          </ul>
+                      </Card>
+                  )}
+
+                  {pack.vocabulary.length > 0 && (
+                      <Card className="!p-0 overflow-hidden">
+                          <h3 className="text-lg font-bold text-slate-800 p-6 pb-4">Key Vocabulary</h3>
+                          <dl className="divide-y divide-slate-100 border-t border-slate-100">
+                              {pack.vocabulary.map((v, i) => (
+                                  <div key={i} className="px-6 py-3 grid md:grid-cols-3 gap-1 md:gap-4 text-sm">
+                                      <dt className="font-semibold text-slate-800">{v.term}</dt>
+                                      <dd className="md:col-span-2 text-slate-600">{v.meaning}</dd>
+                                  </div>
+                              ))}
+                          </dl>
+                      </Card>
+                  )}
+              </main>
+          </div>
+      );
+  }
+
+  if (view === "student-practice" && practiceQuiz) {
+      const solved = practiceSession ? practiceSession.solved.filter(Boolean).length : 0;
+      const hasPassages = (practiceQuiz.passages || []).length > 0;
+      const renderPracticeQuestion = (idx: number) => {
+          const q = practiceQuiz.questions[idx];
+          const feedback = practiceFeedback[idx];
+          return (
+              <div key={idx} className={`bg-white rounded-xl border p-6 ${feedback ? (feedback.correct ? "border-emerald-300" : "border-red-300") : "border-slate-200"}`}>
+                  <div className="flex gap-4">
+                      <span className="flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold bg-slate-100 text-slate-500">{idx + 1}</span>
+                      <div className="flex-1">
+                          <p className="text-lg font-medium text-slate-800 mb-4">{q.text}</p>
+                          <div className={feedback?.correct ? "pointer-events-none" : ""}>
+                              <QuestionInput question={q} answer={practiceAnswers[idx]} onAnswer={(a) => answerPractice(idx, a)} />
+                          </div>
+                          {feedback ? (
+                              <div className={`mt-4 p-4 rounded-lg text-sm ${feedback.correct ? "bg-emerald-50 text-emerald-800" : "bg-red-50 text-red-800"}`}>
+                                  <p className="font-semibold">{feedback.correct ? "Correct!" : "Not quite. Change your answer to try again."}</p>
+                                  {feedback.explanation && <p className="mt-2 text-slate-700">💡 {feedback.explanation}</p>}
+                              </div>
+                          ) : (
+                              <div className="mt-4 flex justify-end">
+                                  <Button variant="secondary" className="text-sm" onClick={() => checkPractice(idx)} disabled={!hasAnyAnswer(practiceAnswers[idx]) || checkingIndex !== null}>{checkingIndex === idx ? "Checking..." : "Check"}</Button>
+                              </div>
+                          )}
+                      </div>
+                  </div>
+              </div>
+          );
+      };
+
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title={`Practice: ${practiceQuiz.title}`} onBack={finishPractice} rightContent={<span className="text-sm font-medium text-emerald-600">{solved}/{practiceQuiz.questions.length} solved</span>} />
+              <main className={`${hasPassages ? 'max-w-6xl' : 'max-w-3xl'} mx-auto p-6 pb-24 space-y-6`}>
+                  <p className="text-sm text-slate-500">No timer and no score on the leaderboard. Check each answer as you go and retry until it's right.</p>
+                  {groupByPassage(practiceQuiz.questions, practiceQuiz.passages).map((group, gIdx) => group.passage ? (
+                      <div key={gIdx} className="grid lg:grid-cols-2 gap-6 items-start">
+                          <PassageCard passage={group.passage} className="lg:sticky lg:top-20 lg:max-h-[calc(100vh-7rem)] lg:overflow-y-auto" />
+                          <div className="space-y-6">{group.indices.map(renderPracticeQuestion)}</div>
+                      </div>
+                  ) : (
+                      <React.Fragment key={gIdx}>{group.indices.map(renderPracticeQuestion)}</React.Fragment>
+                  ))}
+                  <div className="flex justify-center pt-4">
+                      <Button onClick={finishPractice}>Finish Practice</Button>
+                  </div>
+              </main>
+          </div>
+      );
+  }
+
+  if (view === "student-review") {
+      const card = reviewCards.find(c => c.id === reviewQueue[reviewPos]);
+      const finished = reviewPos >= reviewQueue.length;
+      const isCorrect = !!card && reviewChecked && isAnswerCorrect(card.question, reviewAnswer);
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title="Today's Review" onBack={() => setView("student-dash")} rightContent={!finished && <span className="text-sm font-medium text-slate-500">{reviewPos + 1} / {reviewQueue.length}</span>} />
+              <main className="max-w-3xl mx-auto p-6 space-y-6">
+                  {finished || !card ? (
+                      <Card className="text-center py-12">
+                          {finished ? (
+                              <>
+                                  <div className="text-5xl mb-4">🎉</div>
+                                  <h2 className="text-2xl font-bold text-slate-800 mb-2">Review complete</h2>
+                                  <p className="text-slate-500 mb-8">Each question will come back when it's due again.</p>
+                                  <Button onClick={() => setView("student-dash")}>Back to Dashboard</Button>
+                              </>
+                          ) : (
+                              <>
+                                  <p className="text-slate-500 mb-6">This question is no longer in your deck.</p>
+                                  <Button onClick={nextReviewCard}>Next</Button>
+                              </>
+                          )}
+                      </Card>
+                  ) : (
+                      <>
+                          {card.passage && <PassageCard passage={card.passage} />}
+                          <Card>
+                              <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-2">{quizzes.find(q => q.id === card.quizId)?.title ?? "Review"}</p>
+                              <p className="text-lg font-medium text-slate-800 mb-4">{card.question.text}</p>
+                              <div className={reviewChecked ? "pointer-events-none" : ""}>
+                                  <QuestionInput question={card.question} answer={reviewAnswer} onAnswer={setReviewAnswer} />
+                              </div>
+                              {reviewChecked && (
+                                  <div className={`mt-6 p-4 rounded-lg text-sm ${isCorrect ? "bg-emerald-50 text-emerald-800" : "bg-red-50 text-red-800"}`}>
+                                      <p className="font-semibold">{isCorrect ? "Correct!" : `Correct answer: ${describeCorrect(card.question)}`}</p>
+                                      {card.question.explanation && <p className="mt-2 text-slate-700">💡 {card.question.explanation}</p>}
+                                  </div>
+                              )}
+                          </Card>
+                          <div className="flex flex-wrap justify-between items-center gap-3">
+                              <button onClick={() => removeReviewCard(card)} className="text-sm text-slate-400 hover:text-red-600">Remove from deck</button>
+                              {!reviewChecked ? (
+                                  <Button onClick={() => setReviewChecked(true)}>Check Answer</Button>
+                              ) : isCorrect ? (
+                                  <div className="flex gap-2">
+                                      <Button variant="secondary" onClick={() => rateReviewCard(card, 3)}>Hard</Button>
+                                      <Button variant="secondary" onClick={() => rateReviewCard(card, 4)}>Good</Button>
+                                      <Button onClick={() => rateReviewCard(card, 5)}>Easy</Button>
+                                  </div>
+                              ) : (
+                                  <Button onClick={() => rateReviewCard(card, hasAnyAnswer(reviewAnswer) ? 1 : 0)}>Continue</Button>
+                              )}
+                          </div>
+                      </>
+                  )}
+              </main>
+          </div>
+      );
+  }
+
+  if ((view === "teacher-progress" || view === "student-progress") && progressStudent) {
+      const isTeacherView = view === "teacher-progress";
+      const history = progressHistory(progressStudent.id, results, quizzes);
+      const series = groupProgress(history, progressGrouping);
+      const average = history.length ? Math.round(history.reduce((sum, p) => sum + p.percent, 0) / history.length) : null;
+      const perQuestion = progressDetails && averageSecondsPerQuestion(progressDetails);
+      const weak = progressDetails ? weakTopics(progressDetails, quizzes).slice(0, 8) : [];
+      const latestLevel = [...history].reverse().find(p => p.result.level)?.result.level;
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title={isTeacherView ? `Progress: ${progressStudent.name}` : "My Progress"} onBack={() => setView(progressStudent.back)} />
+              {attemptReviewModal}
+              <main className="max-w-5xl mx-auto p-6 space-y-8">
+                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                      <StatCard title="Attempts" value={history.length} color="bg-indigo-500" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"/></svg>} />
+                      <StatCard title="Average Score" value={average === null ? "—" : `${average}%`} color="bg-emerald-500" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6"/></svg>} />
+                      <StatCard title="Time per Question" value={perQuestion == null ? "—" : formatSeconds(Math.round(perQuestion))} color="bg-amber-500" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>} />
+                      <StatCard title="Estimated Level" value={latestLevel ?? "—"} color="bg-violet-500" icon={<svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 11l5-5m0 0l5 5m-5-5v12"/></svg>} />
+                  </div>
+
+                  {history.length === 0 ? (
+                      <div className="py-12 text-center text-slate-500">No attempts yet.</div>
+                  ) : (
+                      <>
+                          <div className="grid gap-8 md:grid-cols-3">
+                              <Card className="md:col-span-2">
+                                  <div className="flex justify-between items-center mb-4">
+                                      <h3 className="text-lg font-bold text-slate-800">Score Trend</h3>
+                                      <div className="flex gap-1 p-1 bg-slate-100 rounded-lg text-sm">
+                                          {(["subject", "difficulty"] as const).map(g => (
+                                              <button key={g} onClick={() => setProgressGrouping(g)} className={`px-3 py-1 rounded-md capitalize ${progressGrouping === g ? "bg-white shadow-sm text-indigo-700 font-medium" : "text-slate-500"}`}>By {g}</button>
+                                          ))}
+                                      </div>
+                                  </div>
+                                  <TrendChart series={series} />
+                              </Card>
+                              <Card>
+                                  <h3 className="text-lg font-bold text-slate-800 mb-1">Weak Topics</h3>
+                                  <p className="text-xs text-slate-400 mb-4">From missed questions, worst first</p>
+                                  {progressDetails === null ? (
+                                      <p className="text-sm text-slate-400">Loading...</p>
+                                  ) : weak.length === 0 ? (
+                                      <p className="text-sm text-slate-400">Nothing missed yet.</p>
+                                  ) : (
+                                      <ol className="space-y-3">
+                                          {weak.map(t => (
+                                              <li key={t.topic} className="text-sm">
+                                                  <div className="flex justify-between mb-1"><span className="font-medium text-slate-700">{t.topic}</span><span className="text-xs text-slate-500">{t.missed}/{t.seen} missed</span></div>
+                                                  <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden"><div className="bg-red-400 h-1.5 rounded-full" style={{ width: `${(t.missed / t.seen) * 100}%` }}></div></div>
+                                              </li>
+                                          ))}
+                                      </ol>
+                                  )}
+                              </Card>
+                          </div>
+
+                          <Card className="!p-0 overflow-hidden">
+                              <table className="w-full text-sm">
+                                  <thead className="bg-slate-50 border-b border-slate-100">
+                                      <tr>
+                                          <th className="px-6 py-4 text-left font-semibold text-slate-500">Date</th>
+                                          <th className="px-6 py-4 text-left font-semibold text-slate-500">Quiz</th>
+                                          <th className="px-6 py-4 text-left font-semibold text-slate-500">Subject</th>
+                                          <th className="px-6 py-4 text-left font-semibold text-slate-500">Difficulty</th>
+                                          <th className="px-6 py-4 text-right font-semibold text-slate-500">Score</th>
+                                          <th className="px-6 py-4"></th>
+                                      </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-100">
+                                      {[...history].reverse().map(p => (
+                                          <tr key={p.result.id} className="hover:bg-slate-50 transition-colors">
+                                              <td className="px-6 py-3 text-slate-500">{new Date(p.result.date).toLocaleDateString()}</td>
+                                              <td className="px-6 py-3 font-medium text-slate-800">{p.quiz?.title ?? "Removed quiz"}</td>
+                                              <td className="px-6 py-3 text-slate-500">{p.subject}</td>
+                                              <td className="px-6 py-3 text-slate-500">{p.difficulty ?? "—"}{p.result.level && <span className="text-xs text-violet-500"> (adaptive)</span>}</td>
+                                              <td className="px-6 py-3 text-right font-bold text-indigo-600">{p.result.score}/{p.result.total} <span className="font-normal text-slate-400">({p.percent}%)</span></td>
+                                              <td className="px-6 py-3 text-right">
+                                                  {p.quiz && p.result.quizVersion !== undefined && (
+                                                      <button onClick={() => isTeacherView ? openAttemptReview(p.result, p.quiz!) : openPastResult(p.result)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">{isTeacherView ? "Open" : "Scorecard"}</button>
+                                                  )}
+                                              </td>
+                                          </tr>
+                                      ))}
+                                  </tbody>
+                              </table>
+                          </Card>
+                      </>
+                  )}
+              </main>
+          </div>
+      );
+  }
+
+  if (view === "teacher-analysis") {
+      const published = analysis && quizzes.find(q => q.id === analysis.quiz.id);
+      const report = analysis && analyzeQuiz(analysis.quiz, analysis.details, batchFilter);
+      const percent = (value: number) => `${Math.round(value * 100)}%`;
+      return (
+          <div className="min-h-screen bg-slate-50">
+              {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+              <Header title={`Item Analysis${analysis ? `: ${analysis.quiz.title}` : ""}`} onBack={() => setView("teacher-dash")} />
+              <main className="max-w-4xl mx-auto p-6 space-y-6">
+                  {!analysis || !report ? (
+                      <div className="py-12 flex justify-center"><div className="w-8 h-8 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div></div>
+                  ) : (
+                      <>
+                          <div className="flex flex-wrap justify-between items-center gap-4">
+                              <div className="text-sm text-slate-500">
+                                  <p>Based on the first attempt of <strong className="text-slate-700">{report.attempts}</strong> student{report.attempts === 1 ? "" : "s"}.</p>
+                                  {report.older > 0 && <p className="text-xs text-slate-400">{report.older} attempt{report.older === 1 ? " was" : "s were"} taken on an earlier version and left out.</p>}
+                                  {report.attempts > 0 && report.attempts < MIN_ATTEMPTS_FOR_DISCRIMINATION && <p className="text-xs text-amber-600">Discrimination and key checks need at least {MIN_ATTEMPTS_FOR_DISCRIMINATION} attempts.</p>}
+                              </div>
+                              {batches.length > 0 && (
+                                  <select value={batchFilter} onChange={(e) => setBatchFilter(e.target.value)} className="p-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                                      <option value="All">All students</option>
+                                      {batches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                  </select>
+                              )}
+                          </div>
+                          {report.attempts === 0 ? (
+                              <div className="py-12 text-center text-slate-500">No attempts with saved answers yet.</div>
+                          ) : analysis.quiz.questions.map((q, i) => {
+                              const item = report.stats[i];
+                              const most = Math.max(1, ...item.choices.map(c => c.count));
+                              return (
+                                  <Card key={i} className={item.flags.length > 0 ? "border-l-4 border-l-red-500" : ""}>
+                                      <div className="flex justify-between items-start gap-4 mb-4">
+                                          <p className="font-medium text-slate-800">{i + 1}. {q.text}</p>
+                                          {published && <Button variant="secondary" className="text-xs flex-shrink-0" onClick={() => editQuiz(published, i)}>Edit Question</Button>}
+                                      </div>
+                                      <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                                          <div className="p-3 bg-slate-50 rounded-lg"><p className="text-xs text-slate-500">Correct</p><p className="text-lg font-bold text-slate-800">{percent(item.difficulty)}</p></div>
+                                          <div className="p-3 bg-slate-50 rounded-lg">
+                                              <p className="text-xs text-slate-500">Discrimination</p>
+                                              <p className={`text-lg font-bold ${item.discrimination === null ? "text-slate-400" : item.discrimination < 0.2 ? "text-red-600" : item.discrimination < 0.3 ? "text-amber-600" : "text-emerald-600"}`}>{item.discrimination === null ? "—" : item.discrimination.toFixed(2)}</p>
+                                          </div>
+                                          <div className="p-3 bg-slate-50 rounded-lg"><p className="text-xs text-slate-500">Skipped</p><p className="text-lg font-bold text-slate-800">{percent(item.skipRate)}</p></div>
+                                      </div>
+                                      {item.choices.length > 0 && (
+                                          <div className="space-y-2">
+                                              {q.type === "fill-blank" && <p className="text-xs text-slate-400">Most common responses</p>}
+                                              {item.choices.map((c, ci) => (
+                                                  <div key={ci} className="flex items-center gap-3 text-sm">
+                                                      <span className={`w-1/3 truncate ${c.correct ? "font-semibold text-emerald-700" : "text-slate-600"}`}>{c.correct ? "✔ " : ""}{c.label}</span>
+                                                      <div className="flex-1 bg-slate-100 rounded-full h-2 overflow-hidden">
+                                                          <div className={`h-2 rounded-full ${c.correct ? "bg-emerald-500" : "bg-slate-400"}`} style={{ width: `${(c.count / most) * 100}%` }}></div>
+                                                      </div>
+                                                      <span className="w-24 text-right text-xs text-slate-500">{c.count} · top {c.topCount}</span>
+                                                  </div>
+                                              ))}
+                                          </div>
+                                      )}
+                                      {item.flags.length > 0 && (
+                                          <div className="mt-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+                                              <p className="font-semibold">Check the answer key</p>
+                                              <ul className="list-disc list-inside">{item.flags.map(f => <li key={f}>{f}</li>)}</ul>
+                                          </div>
+                                      )}
+                                  </Card>
+                              );
+                          })}
+                      </>
+                  )}
+              </main>
+          </div>
+      );
+  }
+
   if (view === "teacher-leaderboard" && leaderboardQuiz) {
       return (
           <div className="min-h-screen bg-slate-50">
               <Header title={`Leaderboard: ${leaderboardQuiz.title}`} onBack={() => setView("teacher-dash")} />
-              <main className="max-w-3xl mx-auto p-6">
+              <main className="max-w-3xl mx-auto p-6 space-y-4">
+                  <div className="flex justify-end items-center gap-2">
+                      <span className="text-xs text-slate-400 mr-1">Every attempt, with times:</span>
+                      <Button variant="secondary" className="text-xs" onClick={() => exportQuizResults(leaderboardQuiz, "csv")}>CSV</Button>
+                      <Button variant="secondary" className="text-xs" onClick={() => exportQuizResults(leaderboardQuiz, "xlsx")}>XLSX</Button>
+                      {batches.length > 0 && (
+                          <select value={batchFilter} onChange={(e) => setBatchFilter(e.target.value)} className="p-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+                              <option value="All">All students</option>
+                              {batches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                          </select>
+                      )}
+                  </div>
                   <Card className="!p-0 overflow-hidden">
                    <table className="w-full text-sm">
                        <thead className="bg-slate-50 border-b border-slate-100">
@@ -1383,22 +4245,64 @@ const App = () => {
                                <th className="px-6 py-4 text-left font-semibold text-slate-500">Rank</th>
                                <th className="px-6 py-4 text-left font-semibold text-slate-500">Student</th>
                                <th className="px-6 py-4 text-left font-semibold text-slate-500">Date</th>
+                               <th className="px-6 py-4 text-left font-semibold text-slate-500">Time</th>
+                               {leaderboardQuiz.proctored && <th className="px-6 py-4 text-left font-semibold text-slate-500">Integrity</th>}
+                               {leaderboardQuiz.adaptive && <th className="px-6 py-4 text-left font-semibold text-slate-500">Level</th>}
                                <th className="px-6 py-4 text-right font-semibold text-slate-500">Score</th>
+                               <th className="px-6 py-4"></th>
                            </tr>
                        </thead>
                        <tbody className="divide-y divide-slate-100">
-                           {getLeaderboard(leaderboardQuiz.id).map((r, i) => (
+                           {getLeaderboard(leaderboardQuiz, batchFilter).map((r, i) => (
                                <tr key={i} className="hover:bg-slate-50 transition-colors">
                                    <td className="px-6 py-4 font-mono text-slate-400">#{i + 1}</td>
-                                   <td className="px-6 py-4 font-medium text-slate-700">{r.studentName}</td>
+                                   <td className="px-6 py-4 font-medium text-slate-700"><button onClick={() => openProgress(resultStudentId(r), r.studentName, "teacher-leaderboard")} className="hover:text-indigo-600 hover:underline">{r.studentName}</button></td>
                                    <td className="px-6 py-4 text-slate-500">{new Date(r.date).toLocaleDateString()}</td>
+                                   <td className="px-6 py-4 font-mono text-xs text-slate-500">{r.timeTaken !== undefined ? formatSeconds(r.timeTaken) : "—"}</td>
+                                   {leaderboardQuiz.proctored && (
+                                       <td className="px-6 py-4">
+                                           {r.integrity ? (
+                                               <button onClick={() => openEventLog(r)} className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${r.integrity.violations === 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                                                   {r.integrity.violations === 0 ? "Clean" : `${r.integrity.violations} flag${r.integrity.violations === 1 ? "" : "s"}`}
+                                               </button>
+                                           ) : <span className="text-xs text-slate-400">—</span>}
+                                       </td>
+                                   )}
+                                   {leaderboardQuiz.adaptive && <td className="px-6 py-4 text-slate-600">{r.level ?? "—"}</td>}
                                    <td className="px-6 py-4 text-right font-bold text-indigo-600">{r.score}/{r.total}</td>
+                                   <td className="px-6 py-4 text-right">
+                                       {r.quizVersion !== undefined && <button onClick={() => openAttemptReview(r, leaderboardQuiz)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Open</button>}
+                                   </td>
                                </tr>
                            ))}
                        </tbody>
                    </table>
                   </Card>
               </main>
+              {attemptReviewModal}
+              {eventLog && (
+                  <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-lg max-h-[80vh] flex flex-col animate-fade-in-up">
+                          <div className="flex justify-between items-center mb-2">
+                              <h3 className="text-xl font-bold text-slate-900">Event Log — {eventLog.result.studentName}</h3>
+                              <button onClick={() => setEventLog(null)} className="text-slate-400 hover:text-slate-600"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
+                          </div>
+                          <p className="text-sm text-slate-500 mb-4">{eventLog.result.integrity?.violations ?? 0} violation(s) counted; a tab switch and its window blur count once.</p>
+                          {eventLog.events.length === 0 ? (
+                              <p className="text-slate-400 text-sm">No events recorded.</p>
+                          ) : (
+                              <ul className="overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                                  {eventLog.events.map((e, i) => (
+                                      <li key={i} className={`flex justify-between px-4 py-2 text-sm ${isViolation(e.type) ? 'text-red-700 bg-red-50/50' : 'text-slate-500'}`}>
+                                          <span>{PROCTOR_EVENT_LABELS[e.type]}</span>
+                                          <span className="font-mono text-xs">{new Date(e.at).toLocaleTimeString()}</span>
+                                      </li>
+                                  ))}
+                              </ul>
+                          )}
+                      </div>
+                  </div>
+              )}
           </div>
       )
   }
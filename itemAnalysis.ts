@@ -0,0 +1,122 @@
+import { isAnswerCorrect, normalizeTextAnswer } from "./grading.ts";
+import type { Answer, Question } from "./types.ts";
+
+export interface ChoiceCount {
+  label: string;
+  correct: boolean;
+  count: number; // Everyone who picked it
+  topCount: number; // Within the top-scoring group
+}
+
+export interface ItemStats {
+  difficulty: number; // Share answering correctly, 0–1
+  discrimination: number | null; // Top group's share correct minus the bottom group's; null with too few attempts
+  skipRate: number;
+  choices: ChoiceCount[]; // Empty for match questions
+  flags: string[];
+}
+
+// Classic item analysis compares the top and bottom 27% by total score
+const GROUP_SHARE = 0.27;
+export const MIN_ATTEMPTS_FOR_DISCRIMINATION = 5;
+// Fill-in answers are grouped by normalized text; only the most common are listed
+const MAX_TEXT_RESPONSES = 5;
+
+const isSkipped = (answer: Answer) => {
+  if (answer === null) return true;
+  if (typeof answer === "string") return answer.trim().length === 0;
+  if (Array.isArray(answer)) return answer.every(a => a === -1);
+  return false;
+};
+
+// Which choices an answer counts towards, as labels
+const pickedLabels = (q: Question, answer: Answer): string[] => {
+  if (isSkipped(answer)) return [];
+  switch (q.type) {
+    case "true-false":
+      return [answer ? "True" : "False"];
+    case "multi-select":
+      return (answer as number[]).map(i => q.options[i]);
+    case "fill-blank":
+      return [normalizeTextAnswer(answer as string, q.caseSensitive)];
+    case "match":
+      return [];
+    default:
+      return [q.options[answer as number]];
+  }
+};
+
+const baseChoices = (q: Question): ChoiceCount[] => {
+  const choice = (label: string, correct: boolean): ChoiceCount => ({ label, correct, count: 0, topCount: 0 });
+  switch (q.type) {
+    case "true-false":
+      return [choice("True", q.correctAnswer), choice("False", !q.correctAnswer)];
+    case "multi-select":
+      return q.options.map((o, i) => choice(o, q.correctIndices.includes(i)));
+    case "fill-blank":
+    case "match":
+      return [];
+    default:
+      return q.options.map((o, i) => choice(o, i === q.correctIndex));
+  }
+};
+
+const share = (part: number, whole: number) => whole === 0 ? 0 : part / whole;
+
+// `attempts` holds each attempt's answers in canonical order, graded against `questions`.
+// `served` lists the questions each adaptive attempt was shown; others only count where they were served.
+export const analyzeItems = (questions: Question[], attempts: Answer[][], served: (number[] | undefined)[] = []): ItemStats[] => {
+  const scores = attempts.map(answers => questions.reduce((sum, q, i) => sum + (isAnswerCorrect(q, answers[i] ?? null) ? 1 : 0), 0));
+  const ranked = attempts.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const groupSize = Math.max(1, Math.round(attempts.length * GROUP_SHARE));
+  const top = new Set(ranked.slice(0, groupSize));
+  const bottom = new Set(ranked.slice(-groupSize));
+  const enough = attempts.length >= MIN_ATTEMPTS_FOR_DISCRIMINATION;
+
+  return questions.map((q, qi) => {
+    const choices = baseChoices(q);
+    let seen = 0, correct = 0, skipped = 0, topSeen = 0, topCorrect = 0, bottomSeen = 0, bottomCorrect = 0;
+
+    attempts.forEach((answers, ai) => {
+      if (served[ai] && !served[ai]!.includes(qi)) return;
+      seen++;
+      if (top.has(ai)) topSeen++;
+      if (bottom.has(ai)) bottomSeen++;
+      const answer = answers[qi] ?? null;
+      const isCorrect = isAnswerCorrect(q, answer);
+      if (isCorrect) correct++;
+      if (isCorrect && top.has(ai)) topCorrect++;
+      if (isCorrect && bottom.has(ai)) bottomCorrect++;
+      if (isSkipped(answer)) skipped++;
+      pickedLabels(q, answer).forEach(label => {
+        let choice = choices.find(c => c.label === label);
+        if (!choice) {
+          choice = { label, correct: isCorrect, count: 0, topCount: 0 };
+          choices.push(choice);
+        }
+        choice.count++;
+        if (top.has(ai)) choice.topCount++;
+      });
+    });
+
+    const difficulty = share(correct, seen);
+    const discrimination = enough ? share(topCorrect, topSeen) - share(bottomCorrect, bottomSeen) : null;
+    const listed = q.type === "fill-blank"
+      ? choices.sort((a, b) => b.count - a.count).slice(0, MAX_TEXT_RESPONSES)
+      : choices;
+
+    // Signs that the key itself may be wrong rather than the question being hard
+    const flags: string[] = [];
+    if (enough) {
+      const keyTop = Math.max(0, ...choices.filter(c => c.correct).map(c => c.topCount));
+      const lure = choices.filter(c => !c.correct).sort((a, b) => b.topCount - a.topCount)[0];
+      if (q.type !== "multi-select" && lure && lure.topCount > keyTop) {
+        flags.push(`Top scorers mostly chose "${lure.label}" instead of the key`);
+      }
+      if (discrimination !== null && discrimination < 0) flags.push("Low scorers did better than top scorers");
+      if (correct === 0) flags.push("Nobody answered correctly");
+    }
+
+    return { difficulty, discrimination, skipRate: share(skipped, seen), choices: listed, flags };
+  });
+};
@@ -0,0 +1,83 @@
+import { resultStudentId } from "./students.ts";
+import type { LeaderboardAttempt, Quiz, Result } from "./types.ts";
+
+export const LEADERBOARD_ATTEMPT_LABELS: Record<LeaderboardAttempt, string> = {
+  best: "Best attempt",
+  first: "First attempt",
+};
+
+// A student's combined standing across several quizzes
+export interface LeaderboardTotal {
+  studentId: string;
+  studentName: string;
+  score: number;
+  total: number;
+  quizzes: number;
+  timeTaken?: number; // Seconds; unset if any counted result predates timing
+  date: number; // When the last counted result was submitted
+}
+
+type Ranked = Pick<Result, "score" | "timeTaken" | "date">;
+type RankedQuiz = Pick<Quiz, "id" | "leaderboardAttempt">;
+
+// Higher score first, then the faster time, then whoever got there first.
+// Results recorded before times were stored rank after timed ones with the same score.
+const compareRanked = (a: Ranked, b: Ranked) => {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.timeTaken !== b.timeTaken) {
+    if (a.timeTaken === undefined) return 1;
+    if (b.timeTaken === undefined) return -1;
+    return a.timeTaken - b.timeTaken;
+  }
+  return a.date - b.date;
+};
+
+// One result per student: their best attempt (the fastest among equal scores) or their first
+export const countedAttempts = (results: Result[], quiz: RankedQuiz): Result[] => {
+  const picked = new Map<string, Result>();
+  results.filter(r => r.quizId === quiz.id).forEach(r => {
+    const id = resultStudentId(r);
+    const current = picked.get(id);
+    const better = !current || (quiz.leaderboardAttempt === "first" ? r.date < current.date : compareRanked(r, current) < 0);
+    if (better) picked.set(id, r);
+  });
+  return Array.from(picked.values());
+};
+
+export const quizLeaderboard = (results: Result[], quiz: RankedQuiz): Result[] =>
+  countedAttempts(results, quiz).sort(compareRanked);
+
+export const isTopThree = (results: Result[], quiz: RankedQuiz, studentId: string) =>
+  quizLeaderboard(results, quiz).slice(0, 3).some(r => resultStudentId(r) === studentId);
+
+// Points are the counted attempts' scores added up, so every quiz taken adds to the total
+export const combinedLeaderboard = (results: Result[], quizzes: RankedQuiz[]): LeaderboardTotal[] => {
+  const totals = new Map<string, LeaderboardTotal>();
+  quizzes.flatMap(q => countedAttempts(results, q)).forEach(r => {
+    const id = resultStudentId(r);
+    const t = totals.get(id);
+    totals.set(id, t ? {
+      ...t,
+      score: t.score + r.score,
+      total: t.total + r.total,
+      quizzes: t.quizzes + 1,
+      timeTaken: t.timeTaken === undefined || r.timeTaken === undefined ? undefined : t.timeTaken + r.timeTaken,
+      date: Math.max(t.date, r.date),
+    } : { studentId: id, studentName: r.studentName, score: r.score, total: r.total, quizzes: 1, timeTaken: r.timeTaken, date: r.date });
+  });
+  return Array.from(totals.values()).sort(compareRanked);
+};
+
+// Weeks start on Monday, local time
+export const weekStart = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - (d.getDay() + 6) % 7);
+  return d.getTime();
+};
+
+// Only attempts submitted this week count, so "first" means the first attempt this week
+export const weeklyLeaderboard = (results: Result[], quizzes: RankedQuiz[], now: number) => {
+  const since = weekStart(now);
+  return combinedLeaderboard(results.filter(r => r.date >= since), quizzes);
+};
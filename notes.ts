@@ -0,0 +1,26 @@
+import type { Note } from "./types.ts";
+
+// Keep in sync with storage.rules, which enforces the same limits on upload
+export const MAX_NOTE_BYTES = 20 * 1024 * 1024;
+export const NOTE_MIME_TYPES: Record<string, string> = {
+  "application/pdf": "PDF",
+  "image/png": "PNG image",
+  "image/jpeg": "JPEG image",
+};
+
+export const noteFileError = (file: { size: number; type: string }) => {
+  if (!(file.type in NOTE_MIME_TYPES)) return `Only ${Object.values(NOTE_MIME_TYPES).join(", ")} files can be uploaded.`;
+  if (file.size > MAX_NOTE_BYTES) return `Files must be ${formatBytes(MAX_NOTE_BYTES)} or smaller.`;
+  if (file.size === 0) return "The file is empty.";
+  return null;
+};
+
+// One folder per note, so the original file name survives for downloads
+export const noteStoragePath = (noteId: string, fileName: string) =>
+  `notes/${noteId}/${fileName.replace(/[/\\]/g, "_")}`;
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Notes uploaded before Storage still carry their file inline until `npm run migrate-notes`
+export const isLegacyNote = (note: Pick<Note, "storagePath" | "fileData">) => !note.storagePath && !!note.fileData;
@@ -0,0 +1,41 @@
+import type { IntegritySummary, ProctorEvent, ProctorEventType } from "./types.ts";
+
+export const PROCTOR_EVENT_LABELS: Record<ProctorEventType, string> = {
+  hidden: "Left the tab",
+  visible: "Came back to the tab",
+  blur: "Window lost focus",
+  focus: "Window regained focus",
+  "fullscreen-exit": "Exited fullscreen",
+  copy: "Copied text",
+  cut: "Cut text",
+  paste: "Pasted text",
+};
+
+const VIOLATIONS: ProctorEventType[] = ["hidden", "blur", "fullscreen-exit", "copy", "cut", "paste"];
+const LEAVING: ProctorEventType[] = ["hidden", "blur"];
+
+// Switching tabs fires both blur and visibilitychange, so they count once
+const SAME_DEPARTURE_MS = 1000;
+
+export const isViolation = (type: ProctorEventType) => VIOLATIONS.includes(type);
+
+export const countViolations = (events: ProctorEvent[] = []) => {
+  let count = 0;
+  let lastDeparture = -Infinity;
+  [...events].sort((a, b) => a.at - b.at).forEach(e => {
+    if (!isViolation(e.type)) return;
+    if (LEAVING.includes(e.type)) {
+      const repeat = e.at - lastDeparture < SAME_DEPARTURE_MS;
+      lastDeparture = e.at;
+      if (repeat) return;
+    }
+    count++;
+  });
+  return count;
+};
+
+export const summarizeIntegrity = (events: ProctorEvent[] = []): IntegritySummary => {
+  const counts: Partial<Record<ProctorEventType, number>> = {};
+  events.forEach(e => { counts[e.type] = (counts[e.type] || 0) + 1; });
+  return { violations: countViolations(events), counts };
+};
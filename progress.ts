@@ -0,0 +1,83 @@
+import { resultStudentId } from "./students.ts";
+import type { Difficulty, PublicQuestion, PublishedQuiz, Result, ResultDetail } from "./types.ts";
+
+export interface ProgressPoint {
+  result: Result;
+  quiz?: PublishedQuiz; // Missing once the quiz is deleted
+  subject: string;
+  difficulty?: Difficulty;
+  percent: number;
+}
+
+export interface TopicStat {
+  topic: string;
+  seen: number;
+  missed: number;
+}
+
+// Every attempt by one student, oldest first
+export const progressHistory = (studentId: string, results: Result[], quizzes: PublishedQuiz[]): ProgressPoint[] =>
+  results
+    .filter(r => resultStudentId(r) === studentId)
+    .sort((a, b) => a.date - b.date)
+    .map(result => {
+      const quiz = quizzes.find(q => q.id === result.quizId);
+      return {
+        result,
+        quiz,
+        subject: quiz?.subject || "General",
+        // Adaptive attempts are placed at the level the student reached
+        difficulty: result.level ?? quiz?.difficulty,
+        percent: result.total > 0 ? Math.round((result.score / result.total) * 100) : 0,
+      };
+    });
+
+// Splits the history into one series per subject or difficulty, keeping the date order
+export const groupProgress = (points: ProgressPoint[], by: "subject" | "difficulty") => {
+  const groups = new Map<string, ProgressPoint[]>();
+  points.forEach(p => {
+    const label = by === "subject" ? p.subject : p.difficulty ?? "Unknown";
+    groups.set(label, [...(groups.get(label) || []), p]);
+  });
+  return Array.from(groups, ([label, series]) => ({ label, points: series }));
+};
+
+export const averageSecondsPerQuestion = (details: ResultDetail[]): number | null => {
+  const times = details.flatMap(d => d.timeSpent);
+  return times.length ? times.reduce((sum, t) => sum + t, 0) / times.length : null;
+};
+
+// Topics come from question tags, falling back to the quiz subject
+export const questionTopics = (question: Pick<PublicQuestion, "tags">, quiz: Pick<PublishedQuiz, "subject">) =>
+  question.tags?.length ? question.tags : [quiz.subject || "General"];
+
+// Worst miss rate first
+export const weakTopics = (details: ResultDetail[], quizzes: PublishedQuiz[]): TopicStat[] => {
+  const stats = new Map<string, TopicStat>();
+  details.forEach(d => {
+    const quiz = quizzes.find(q => q.id === d.quizId);
+    // Older details have no per-question grading
+    if (!d.correct) return;
+    // Details saved before topics were stored look them up on the quiz; once it has been
+    // edited its questions may no longer line up, so only the subject is used
+    const topicsOf = (i: number): string[] => {
+      if (d.topics) return d.topics[String(i)] ?? [];
+      if (!quiz) return [];
+      const question = d.quizVersion === (quiz.version ?? 1) ? quiz.questions[i] : undefined;
+      return question ? questionTopics(question, quiz) : [quiz.subject || "General"];
+    };
+    d.correct.forEach((isCorrect, i) => {
+      // Adaptive attempts only saw some of the questions
+      if (d.served && !d.served.includes(i)) return;
+      topicsOf(i).forEach(topic => {
+        const stat = stats.get(topic) ?? { topic, seen: 0, missed: 0 };
+        stat.seen++;
+        if (!isCorrect) stat.missed++;
+        stats.set(topic, stat);
+      });
+    });
+  });
+  return Array.from(stats.values())
+    .filter(s => s.missed > 0)
+    .sort((a, b) => b.missed / b.seen - a.missed / a.seen || b.missed - a.missed);
+};
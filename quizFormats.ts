@@ -0,0 +1,833 @@
+import { questionType } from "./grading.ts";
+import { validatePassage, validateQuestion } from "./quizValidation.ts";
+import { createZip, isZip, readZip } from "./zip.ts";
+import type { Difficulty, Passage, Question, QuestionType, Quiz } from "./types.ts";
+
+export type QuizFormat = "json" | "csv" | "gift" | "qti";
+
+export const QUIZ_FORMATS: Record<QuizFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  csv: { label: "CSV (spreadsheet)", extension: "csv", mimeType: "text/csv" },
+  gift: { label: "Moodle GIFT", extension: "gift", mimeType: "text/plain" },
+  qti: { label: "QTI 2.1 package", extension: "zip", mimeType: "application/zip" },
+};
+
+// One question from an import, or a problem with the file itself, as shown in the preview
+export interface ImportRow {
+  source: string; // Where it came from, e.g. "Line 4" or "items/q2.xml"
+  question: Question | null; // Null when there are errors
+  errors: string[];
+}
+
+export interface ImportedQuiz {
+  title?: string;
+  subject?: string;
+  difficulty?: Difficulty;
+  passages: Passage[];
+  rows: ImportRow[];
+}
+
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+const QUESTION_TYPES: QuestionType[] = ["mcq", "true-false", "multi-select", "fill-blank", "match"];
+const QUESTION_FIELDS = ["type", "text", "explanation", "tags", "difficulty", "passageId", "options", "correctIndex", "correctAnswer", "correctIndices", "acceptedAnswers", "caseSensitive", "prompts", "choices", "correctMatches"];
+
+export const detectQuizFormat = (fileName: string, bytes: Uint8Array): QuizFormat | null => {
+  if (isZip(bytes)) return "qti";
+  switch (fileName.toLowerCase().split(".").pop()) {
+    case "json": return "json";
+    case "csv": return "csv";
+    case "gift":
+    case "txt": return "gift";
+    case "xml": return "qti";
+    default: return null;
+  }
+};
+
+// Firestore rejects undefined fields, and bank links don't carry over between quizzes
+const cleanQuestion = (q: Question): Question =>
+  Object.fromEntries(Object.entries(q).filter(([field, value]) => value !== undefined && field !== "bankId")) as Question;
+
+const fileError = (message: string): ImportedQuiz => ({ passages: [], rows: [{ source: "File", question: null, errors: [message] }] });
+
+const toDifficulty = (value: string) => DIFFICULTIES.find(d => d.toLowerCase() === value.trim().toLowerCase());
+
+// Validates a parsed question the same way the editor does before publishing
+const toRow = (source: string, candidate: Record<string, unknown> | null, passages: Passage[], errors: string[] = []): ImportRow => {
+  const problems = [...errors];
+  if (candidate) {
+    problems.push(...validateQuestion(candidate, 0).map(issue => `${issue.field} ${issue.message}`));
+    const { tags, difficulty, passageId } = candidate;
+    if (tags !== undefined && !(Array.isArray(tags) && tags.every(t => typeof t === "string" && t.trim()))) problems.push("tags must be a list of words");
+    if (difficulty !== undefined && !DIFFICULTIES.includes(difficulty as Difficulty)) problems.push(`difficulty must be one of ${DIFFICULTIES.join(", ")}`);
+    if (passageId !== undefined && !passages.some(p => p.id === passageId)) problems.push("passage is missing from the file");
+  }
+  return { source, question: candidate && problems.length === 0 ? cleanQuestion(candidate as unknown as Question) : null, errors: problems };
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+// Option letters (A, B, ...) or 1-based numbers
+const fromLetter = (value: string) => {
+  const v = value.trim().toUpperCase();
+  if (/^[A-Z]$/.test(v)) return v.charCodeAt(0) - 65;
+  if (/^\d+$/.test(v)) return parseInt(v, 10) - 1;
+  return NaN;
+};
+
+const parseBoolean = (value: string) => {
+  const v = value.trim().toLowerCase();
+  if (["true", "t", "yes"].includes(v)) return true;
+  if (["false", "f", "no"].includes(v)) return false;
+  return undefined;
+};
+
+// --- JSON ---
+
+const exportJson = (quiz: Quiz) => JSON.stringify({
+  title: quiz.title,
+  subject: quiz.subject,
+  difficulty: quiz.difficulty,
+  ...(quiz.passages?.length ? { passages: quiz.passages } : {}),
+  questions: quiz.questions.map(cleanQuestion),
+}, null, 2);
+
+// Accepts an exported quiz or a bare list of questions
+const importJson = (text: string): ImportedQuiz => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    return fileError(`Not valid JSON: ${e.message}`);
+  }
+  const root = (Array.isArray(data) ? { questions: data } : data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  if (!Array.isArray(root.questions)) return fileError('Expected a "questions" list');
+
+  const rows: ImportRow[] = [];
+  const passages: Passage[] = [];
+  (Array.isArray(root.passages) ? root.passages : []).forEach((p, i) => {
+    const problem = validatePassage(p);
+    if (problem) {
+      rows.push({ source: `Passage ${i + 1}`, question: null, errors: [`passage ${problem}`] });
+      return;
+    }
+    const { id, title, text, kind } = p as Passage;
+    passages.push({ id, ...(title ? { title } : {}), text, ...(kind === "poem" || kind === "prose" ? { kind } : {}) });
+  });
+  root.questions.forEach((q, i) => {
+    const candidate = q && typeof q === "object"
+      ? Object.fromEntries(QUESTION_FIELDS.filter(f => (q as Record<string, unknown>)[f] !== undefined).map(f => [f, (q as Record<string, unknown>)[f]]))
+      : null;
+    rows.push(toRow(`Question ${i + 1}`, candidate, passages, candidate ? [] : ["question is not an object"]));
+  });
+
+  const text_ = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+  return {
+    title: text_(root.title),
+    subject: text_(root.subject),
+    difficulty: typeof root.difficulty === "string" ? toDifficulty(root.difficulty) : undefined,
+    passages,
+    rows,
+  };
+};
+
+// --- CSV ---
+
+// One row per question. Lists share a cell, separated by |; a literal | or \ is escaped with \.
+// answer: option letter(s) for choice and match questions, TRUE/FALSE, or the accepted answers.
+const CSV_COLUMNS = ["type", "text", "prompts", "options", "answer", "explanation", "tags", "difficulty", "case_sensitive", "passage_id", "passage_title", "passage_kind", "passage_text"];
+
+const joinList = (items: string[]) => items.map(i => i.replace(/\\/g, "\\\\").replace(/\|/g, "\\|")).join("|");
+
+const splitList = (cell: string) => {
+  if (!cell.trim()) return [];
+  const items: string[] = [];
+  let current = "";
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === "\\" && i + 1 < cell.length) current += cell[++i];
+    else if (cell[i] === "|") { items.push(current); current = ""; }
+    else current += cell[i];
+  }
+  items.push(current);
+  return items.map(i => i.trim());
+};
+
+// RFC 4180: quoted cells may hold the delimiter, doubled quotes and line breaks
+const parseCsv = (text: string, delimiter: string) => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [], cell = "", quoted = false, line = 1, rowLine = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else { if (c === "\n") line++; cell += c; }
+    } else if (c === '"') quoted = true;
+    else if (c === delimiter) { row.push(cell); cell = ""; }
+    else if (c === "\n") {
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = []; cell = ""; line++; rowLine = line;
+    } else cell += c;
+  }
+  if (cell || row.length) rows.push({ line: rowLine, cells: [...row, cell] });
+  return rows.filter(r => r.cells.some(c => c.trim()));
+};
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const exportCsv = (quiz: Quiz) => {
+  const passages = new Map((quiz.passages || []).map(p => [p.id, p]));
+  const rows = quiz.questions.map(q => {
+    const type = questionType(q);
+    const passage = q.passageId ? passages.get(q.passageId) : undefined;
+    const cells: Record<string, string> = {
+      type,
+      text: q.text,
+      explanation: q.explanation ?? "",
+      tags: joinList(q.tags ?? []),
+      difficulty: q.difficulty ?? "",
+      passage_id: q.passageId ?? "",
+      passage_title: passage?.title ?? "",
+      passage_kind: passage?.kind ?? "",
+      passage_text: passage?.text ?? "",
+    };
+    switch (q.type) {
+      case "true-false":
+        cells.answer = q.correctAnswer ? "TRUE" : "FALSE";
+        break;
+      case "multi-select":
+        cells.options = joinList(q.options);
+        cells.answer = q.correctIndices.map(letter).join("|");
+        break;
+      case "fill-blank":
+        cells.answer = joinList(q.acceptedAnswers);
+        cells.case_sensitive = q.caseSensitive === undefined ? "" : q.caseSensitive ? "TRUE" : "FALSE";
+        break;
+      case "match":
+        cells.prompts = joinList(q.prompts);
+        cells.options = joinList(q.choices);
+        cells.answer = q.correctMatches.map(letter).join("|");
+        break;
+      default:
+        cells.options = joinList(q.options);
+        cells.answer = letter(q.correctIndex);
+    }
+    return CSV_COLUMNS.map(c => csvCell(cells[c] ?? "")).join(",");
+  });
+  // The byte order mark makes Excel read the file as UTF-8
+  return "﻿" + [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+};
+
+const importCsv = (raw: string): ImportedQuiz => {
+  const text = raw.replace(/^﻿/, "").replace(/\r\n?/g, "\n");
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  // Spreadsheets in some locales save with semicolons
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+  const [header, ...records] = parseCsv(text, delimiter);
+  if (!header) return fileError("The file is empty");
+  const columns = header.cells.map(c => c.trim().toLowerCase().replace(/\s+/g, "_"));
+  if (!columns.includes("text")) return fileError(`The header row needs a "text" column (columns: ${CSV_COLUMNS.join(", ")})`);
+  const cellOf = (cells: string[]) => (name: string) => {
+    const i = columns.indexOf(name);
+    return i === -1 ? "" : (cells[i] ?? "");
+  };
+
+  // Passages repeat on every row that uses them; the first row with text defines each one
+  const passages: Passage[] = [];
+  records.forEach(({ cells }) => {
+    const cell = cellOf(cells);
+    const id = cell("passage_id").trim();
+    if (!id || !cell("passage_text").trim() || passages.some(p => p.id === id)) return;
+    const kind = cell("passage_kind").trim().toLowerCase();
+    passages.push({
+      id,
+      ...(cell("passage_title").trim() ? { title: cell("passage_title").trim() } : {}),
+      text: cell("passage_text").trim(),
+      ...(kind === "poem" || kind === "prose" ? { kind } : {}),
+    });
+  });
+
+  const rows = records.map(({ line, cells }) => {
+    const cell = cellOf(cells);
+    const errors: string[] = [];
+    const type = (cell("type").trim().toLowerCase() || "mcq") as QuestionType;
+    if (!QUESTION_TYPES.includes(type)) return toRow(`Line ${line}`, null, passages, [`type must be one of ${QUESTION_TYPES.join(", ")}`]);
+    const letters = (value: string) => {
+      const indices = splitList(value).map(fromLetter);
+      if (indices.some(Number.isNaN)) errors.push("answer must use option letters (A, B, ...)");
+      return indices;
+    };
+    const tags = splitList(cell("tags")).map(t => t.toLowerCase()).filter(Boolean);
+    const difficulty = cell("difficulty").trim();
+    const candidate: Record<string, unknown> = {
+      type,
+      text: cell("text").trim(),
+      ...(cell("explanation").trim() ? { explanation: cell("explanation").trim() } : {}),
+      ...(tags.length ? { tags } : {}),
+      ...(difficulty ? { difficulty: toDifficulty(difficulty) ?? difficulty } : {}),
+      ...(cell("passage_id").trim() ? { passageId: cell("passage_id").trim() } : {}),
+    };
+    switch (type) {
+      case "true-false": {
+        const answer = parseBoolean(cell("answer"));
+        if (answer === undefined) errors.push("answer must be TRUE or FALSE");
+        else candidate.correctAnswer = answer;
+        break;
+      }
+      case "multi-select":
+        candidate.options = splitList(cell("options"));
+        candidate.correctIndices = letters(cell("answer"));
+        break;
+      case "fill-blank": {
+        candidate.acceptedAnswers = splitList(cell("answer"));
+        const caseSensitive = cell("case_sensitive").trim();
+        if (caseSensitive) {
+          const value = parseBoolean(caseSensitive);
+          if (value === undefined) errors.push("case_sensitive must be TRUE or FALSE");
+          else candidate.caseSensitive = value;
+        }
+        break;
+      }
+      case "match":
+        candidate.prompts = splitList(cell("prompts"));
+        candidate.choices = splitList(cell("options"));
+        candidate.correctMatches = letters(cell("answer"));
+        break;
+      default:
+        candidate.options = splitList(cell("options"));
+        candidate.correctIndex = letters(cell("answer"))[0];
+    }
+    return toRow(`Line ${line}`, candidate, passages, errors);
+  });
+  return { passages, rows };
+};
+
+// --- Moodle GIFT ---
+
+// Fields GIFT has no syntax for travel in a comment line above the question, e.g.
+// "// [tag:tenses] [difficulty:Hard] [passage:<id>]"; Moodle ignores them (apart from tags).
+// Passages are written as description items, which Moodle also uses for reading texts.
+
+const giftEscape = (s: string) => s.replace(/[\\~=#{}:]/g, c => "\\" + c).replace(/\n/g, "\\n");
+
+const giftUnescape = (s: string) => s.replace(/\\([\s\S])/g, (_, c) => c === "n" ? "\n" : c);
+
+// Index of `token` outside escape sequences
+const indexOfUnescaped = (s: string, token: string, from = 0) => {
+  for (let i = from; i < s.length; i++) {
+    if (s[i] === "\\") i++;
+    else if (s.startsWith(token, i)) return i;
+  }
+  return -1;
+};
+
+const giftWeight = (share: number) => String(Number(share.toFixed(5)));
+
+const giftAnswers = (q: Question): string => {
+  switch (q.type) {
+    case "true-false":
+      return q.correctAnswer ? "TRUE" : "FALSE";
+    case "multi-select": {
+      // Weighted answers keep a one-answer multi-select from coming back as single choice
+      const weight = giftWeight(100 / q.correctIndices.length);
+      return q.options.map((o, i) => `~%${q.correctIndices.includes(i) ? weight : "-100"}%${giftEscape(o)}`).join(" ");
+    }
+    case "fill-blank":
+      return q.acceptedAnswers.map(a => `=${giftEscape(a)}`).join(" ");
+    case "match": {
+      const unused = q.choices.map((_, i) => i).filter(i => !q.correctMatches.includes(i));
+      return [
+        ...q.prompts.map((p, i) => `=${giftEscape(p)} -> ${giftEscape(q.choices[q.correctMatches[i]])}`),
+        ...unused.map(i => `= -> ${giftEscape(q.choices[i])}`),
+      ].join(" ");
+    }
+    default:
+      return q.options.map((o, i) => `${i === q.correctIndex ? "=" : "~"}${giftEscape(o)}`).join(" ");
+  }
+};
+
+const giftComment = (meta: string[]) => meta.length ? `// ${meta.join(" ")}\n` : "";
+
+const exportGift = (quiz: Quiz) => {
+  const passages = (quiz.passages || []).map(p =>
+    giftComment([`[passage:${p.id}]`, ...(p.kind ? [`[kind:${p.kind}]`] : [])]) +
+    (p.title ? `::${giftEscape(p.title)}::` : "") + giftEscape(p.text));
+  const questions = quiz.questions.map(q => {
+    const meta = [
+      ...(q.tags ?? []).map(t => `[tag:${t}]`),
+      ...(q.difficulty ? [`[difficulty:${q.difficulty}]`] : []),
+      ...(q.passageId ? [`[passage:${q.passageId}]`] : []),
+      ...(q.type === "fill-blank" && q.caseSensitive !== undefined ? [`[case-sensitive:${q.caseSensitive}]`] : []),
+      // Moodle reads answers at the end as a blank there, which this question doesn't have
+      ...(q.type === "fill-blank" && !q.text.includes("___") ? ["[no-blank]"] : []),
+    ];
+    if (q.type === "match") {
+      // GIFT lists choices in pair order; this restores the original order on import
+      const unused = q.choices.map((_, i) => i).filter(i => !q.correctMatches.includes(i));
+      const written = [...q.correctMatches, ...unused];
+      if (written.some((c, i) => c !== i)) meta.push(`[choice-order:${q.choices.map((_, i) => written.indexOf(i)).join(",")}]`);
+    }
+    const answers = `{${giftAnswers(q)}${q.explanation ? `####${giftEscape(q.explanation)}` : ""}}`;
+    const body = q.type === "fill-blank" && q.text.includes("___")
+      ? q.text.split("___").map(giftEscape).reduce((text, part, i) => i === 1 ? `${text}${answers}${part}` : `${text}___${part}`)
+      : `${giftEscape(q.text)} ${answers}`;
+    return giftComment(meta) + body;
+  });
+  return [...passages, ...questions].join("\n\n") + "\n";
+};
+
+interface GiftItem {
+  line: number;
+  meta: [string, string][];
+  body: string;
+}
+
+const splitGiftItems = (text: string): GiftItem[] => {
+  const items: GiftItem[] = [];
+  let current: GiftItem | null = null;
+  text.replace(/^﻿/, "").replace(/\r\n?/g, "\n").split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) {
+      if (current) items.push(current);
+      current = null;
+      return;
+    }
+    current ??= { line: i + 1, meta: [], body: "" };
+    if (line.startsWith("//")) {
+      for (const [, key, value] of line.matchAll(/\[([a-z-]+)(?::([^\]]*))?\]/gi)) current.meta.push([key.toLowerCase(), value ?? ""]);
+    } else {
+      current.body = current.body ? `${current.body} ${line}` : line;
+    }
+  });
+  if (current) items.push(current);
+  return items.filter(item => item.body && !item.body.startsWith("$CATEGORY:"));
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+}
+
+const parseGiftAnswers = (block: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let start = -1;
+  const flush = (end: number) => {
+    if (start === -1) return;
+    let text = block.slice(start + 1, end);
+    // Per-answer feedback isn't kept; only the general feedback becomes the explanation
+    const feedback = indexOfUnescaped(text, "#");
+    if (feedback !== -1) text = text.slice(0, feedback);
+    const weight = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(text);
+    answers.push({
+      correct: block[start] === "=",
+      weight: weight ? parseFloat(weight[1]) : null,
+      text: (weight ? text.slice(weight[0].length) : text).trim(),
+    });
+  };
+  for (let i = 0; i < block.length; i++) {
+    if (block[i] === "\\") i++;
+    else if (block[i] === "=" || block[i] === "~") { flush(i); start = i; }
+  }
+  flush(block.length);
+  return answers;
+};
+
+const importGift = (text: string): ImportedQuiz => {
+  const items = splitGiftItems(text);
+  const passages: Passage[] = [];
+  const parsed = items.map(item => {
+    const meta = (key: string) => item.meta.filter(([k]) => k === key).map(([, v]) => v.trim());
+    let body = item.body;
+    // Question names aren't used here
+    if (body.startsWith("::")) {
+      const end = indexOfUnescaped(body, "::", 2);
+      if (end !== -1) {
+        const title = giftUnescape(body.slice(2, end)).trim();
+        body = body.slice(end + 2);
+        if (indexOfUnescaped(body, "{") === -1) return { item, passage: { title, body } };
+      }
+    }
+    const open = indexOfUnescaped(body, "{");
+    if (open === -1) return { item, passage: { title: "", body } };
+    const close = indexOfUnescaped(body, "}", open);
+    if (close === -1) return { item, errors: ["answer block is missing its closing }"] };
+    return { item, meta, before: body.slice(0, open), block: body.slice(open + 1, close), after: body.slice(close + 1) };
+  });
+
+  // Description items become passages; a [passage:id] comment keeps the original ID
+  parsed.forEach(p => {
+    if (!p.passage) return;
+    const kind = p.item.meta.find(([k]) => k === "kind")?.[1];
+    passages.push({
+      id: p.item.meta.find(([k]) => k === "passage")?.[1] || crypto.randomUUID(),
+      ...(p.passage.title ? { title: p.passage.title } : {}),
+      text: giftUnescape(p.passage.body).trim(),
+      ...(kind === "poem" || kind === "prose" ? { kind } : {}),
+    });
+  });
+
+  const rows = parsed.flatMap((p): ImportRow[] => {
+    const source = `Line ${p.item.line}`;
+    if (p.passage) return [];
+    if (p.errors || p.block === undefined) return [toRow(source, null, passages, p.errors)];
+    const { meta, before, after } = p;
+    let block = p.block;
+    let explanation = "";
+    const general = indexOfUnescaped(block, "####");
+    if (general !== -1) {
+      explanation = giftUnescape(block.slice(general + 4)).trim();
+      block = block.slice(0, general);
+    }
+    const trimmedBlock = block.trim();
+    if (trimmedBlock.startsWith("#")) return [toRow(source, null, passages, ["numerical questions aren't supported"])];
+    if (!trimmedBlock) return [toRow(source, null, passages, ["essay questions aren't supported"])];
+
+    const inline = after!.trim().length > 0;
+    const tags = meta!("tag").map(t => t.toLowerCase()).filter(Boolean);
+    const candidate: Record<string, unknown> = {
+      ...(tags.length ? { tags } : {}),
+      ...(meta!("difficulty")[0] ? { difficulty: toDifficulty(meta!("difficulty")[0]) ?? meta!("difficulty")[0] } : {}),
+      ...(meta!("passage")[0] ? { passageId: meta!("passage")[0] } : {}),
+      ...(explanation ? { explanation } : {}),
+    };
+    // Answers in the middle of the text mark the blank ("missing word" format)
+    const blankText = `${giftUnescape(before!).trimStart()}___${giftUnescape(after!).trimEnd()}`;
+    const plainText = inline ? blankText : giftUnescape(before!.replace(/ $/, "")).trim();
+
+    const tf = /^(T|TRUE|F|FALSE)\b/i.exec(trimmedBlock);
+    if (tf && indexOfUnescaped(trimmedBlock, "=") === -1 && indexOfUnescaped(trimmedBlock, "~") === -1) {
+      return [toRow(source, { type: "true-false", text: plainText, correctAnswer: tf[1].toUpperCase().startsWith("T"), ...candidate }, passages)];
+    }
+
+    const answers = parseGiftAnswers(block);
+    // Only a block of `=prompt -> choice` pairs is a match; an arrow inside one accepted answer isn't
+    if (answers.length > 0 && answers.every(a => a.correct && indexOfUnescaped(a.text, "->") !== -1)) {
+      const prompts: string[] = [];
+      const choices: string[] = [];
+      const correctMatches: number[] = [];
+      answers.forEach(a => {
+        const arrow = indexOfUnescaped(a.text, "->");
+        const prompt = giftUnescape(a.text.slice(0, arrow)).trim();
+        const choice = giftUnescape(a.text.slice(arrow + 2)).trim();
+        if (!choices.includes(choice)) choices.push(choice);
+        if (prompt) {
+          prompts.push(prompt);
+          correctMatches.push(choices.indexOf(choice));
+        }
+      });
+      const order = meta!("choice-order")[0]?.split(",").map(Number);
+      const isPermutation = order && order.length === choices.length && [...order].sort((a, b) => a - b).every((v, i) => v === i);
+      return [toRow(source, {
+        type: "match",
+        text: plainText,
+        prompts,
+        choices: isPermutation ? order.map(i => choices[i]) : choices,
+        correctMatches: isPermutation ? correctMatches.map(c => order.indexOf(c)) : correctMatches,
+        ...candidate,
+      }, passages)];
+    }
+
+    const options = answers.map(a => giftUnescape(a.text));
+    if (answers.some(a => a.weight !== null)) {
+      return [toRow(source, {
+        type: "multi-select",
+        text: plainText,
+        options,
+        correctIndices: answers.flatMap((a, i) => (a.weight ?? (a.correct ? 100 : 0)) > 0 ? [i] : []),
+        ...candidate,
+      }, passages)];
+    }
+    if (answers.every(a => a.correct)) {
+      const caseSensitive = meta!("case-sensitive")[0];
+      return [toRow(source, {
+        type: "fill-blank",
+        text: meta!("no-blank").length ? plainText : blankText,
+        acceptedAnswers: options,
+        ...(caseSensitive ? { caseSensitive: caseSensitive === "true" } : {}),
+        ...candidate,
+      }, passages)];
+    }
+    const correct = answers.filter(a => a.correct).length;
+    return [toRow(source, {
+      type: "mcq",
+      text: plainText,
+      options,
+      correctIndex: answers.findIndex(a => a.correct),
+      ...candidate,
+    }, passages, correct > 1 ? ["mark only one answer with = (use weights like ~%50% for several)"] : [])];
+  });
+  return { passages, rows };
+};
+
+// --- QTI 2.1 ---
+
+// A content package: imsmanifest.xml plus one assessmentItem per question. Tags and difficulty go
+// into each item's LOM metadata in the manifest; passages are repeated in the body of each item.
+
+const QTI_NS = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const LOM_DIFFICULTY: Record<Difficulty, string> = { Easy: "easy", Medium: "medium", Hard: "difficult" };
+
+const xml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const qtiItem = (q: Question, identifier: string, passage: Passage | undefined) => {
+  let declaration: string;
+  let interaction: string;
+  let scoring = `<responseCondition><responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf></responseCondition>`;
+  const prompt = `<prompt>${xml(q.text)}</prompt>`;
+  const correct = (values: string[]) => `<correctResponse>${values.map(v => `<value>${xml(v)}</value>`).join("")}</correctResponse>`;
+
+  switch (q.type) {
+    case "true-false":
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">${correct([String(q.correctAnswer)])}</responseDeclaration>`;
+      interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}<simpleChoice identifier="true">True</simpleChoice><simpleChoice identifier="false">False</simpleChoice></choiceInteraction>`;
+      break;
+    case "multi-select":
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">${correct(q.correctIndices.map(i => `C${i + 1}`))}</responseDeclaration>`;
+      interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="0">${prompt}${q.options.map((o, i) => `<simpleChoice identifier="C${i + 1}">${xml(o)}</simpleChoice>`).join("")}</choiceInteraction>`;
+      break;
+    case "fill-blank": {
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correct([q.acceptedAnswers[0]])}<mapping defaultValue="0">${q.acceptedAnswers.map(a => `<mapEntry mapKey="${xml(a)}" mappedValue="1" caseSensitive="${q.caseSensitive === true}"/>`).join("")}</mapping></responseDeclaration>`;
+      const [before, ...after] = q.text.split("___");
+      const entry = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/>`;
+      // Without a blank in the text, the answer box goes in its own paragraph below it
+      interaction = after.length
+        ? `<p>${xml(before)}${entry}${xml(after.join("___"))}</p>`
+        : `<p>${xml(q.text)}</p><p>${entry}</p>`;
+      scoring = `<setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>`;
+      break;
+    }
+    case "match":
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">${correct(q.correctMatches.map((c, i) => `P${i + 1} M${c + 1}`))}</responseDeclaration>`;
+      interaction = `<matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${q.prompts.length}">${prompt}` +
+        `<simpleMatchSet>${q.prompts.map((p, i) => `<simpleAssociableChoice identifier="P${i + 1}" matchMax="1">${xml(p)}</simpleAssociableChoice>`).join("")}</simpleMatchSet>` +
+        `<simpleMatchSet>${q.choices.map((c, i) => `<simpleAssociableChoice identifier="M${i + 1}" matchMax="1">${xml(c)}</simpleAssociableChoice>`).join("")}</simpleMatchSet></matchInteraction>`;
+      break;
+    default:
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">${correct([`C${q.correctIndex + 1}`])}</responseDeclaration>`;
+      interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${prompt}${q.options.map((o, i) => `<simpleChoice identifier="C${i + 1}">${xml(o)}</simpleChoice>`).join("")}</choiceInteraction>`;
+  }
+
+  const passageBody = passage
+    ? `<div class="passage${passage.kind ? ` ${passage.kind}` : ""}" id="passage_${xml(passage.id)}"${passage.title ? ` label="${xml(passage.title)}"` : ""}><p>${xml(passage.text)}</p></div>`
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${xml(q.text.slice(0, 80))}" adaptive="false" timeDependent="false">
+${declaration}
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+<itemBody>${passageBody}${interaction}</itemBody>
+<responseProcessing>${scoring}<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue></responseProcessing>
+${q.explanation ? `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${xml(q.explanation)}</modalFeedback>\n` : ""}</assessmentItem>
+`;
+};
+
+const exportQti = (quiz: Quiz) => {
+  const encoder = new TextEncoder();
+  const items = quiz.questions.map((q, i) => ({
+    identifier: `q${i + 1}`,
+    href: `items/q${i + 1}.xml`,
+    question: q,
+    xml: qtiItem(q, `q${i + 1}`, quiz.passages?.find(p => p.id === q.passageId)),
+  }));
+  const lom = (q: Question) => {
+    const general = (q.tags ?? []).map(t => `<imsmd:keyword><imsmd:string>${xml(t)}</imsmd:string></imsmd:keyword>`).join("");
+    const educational = q.difficulty ? `<imsmd:educational><imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${LOM_DIFFICULTY[q.difficulty]}</imsmd:value></imsmd:difficulty></imsmd:educational>` : "";
+    return general || educational ? `<metadata><imsmd:lom>${general ? `<imsmd:general>${general}</imsmd:general>` : ""}${educational}</imsmd:lom></metadata>` : "";
+  };
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST-${xml(quiz.id)}">
+<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion><imsmd:lom><imsmd:general><imsmd:title><imsmd:string>${xml(quiz.title)}</imsmd:string></imsmd:title></imsmd:general></imsmd:lom></metadata>
+<organizations/>
+<resources>
+${items.map(item => `<resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">${lom(item.question)}<file href="${item.href}"/></resource>`).join("\n")}
+</resources>
+</manifest>
+`;
+  return createZip([
+    { name: "imsmanifest.xml", data: encoder.encode(manifest) },
+    ...items.map(item => ({ name: item.href, data: encoder.encode(item.xml) })),
+  ]);
+};
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  return doc.getElementsByTagName("parsererror").length ? null : doc;
+};
+
+// Namespace prefixes vary between tools, so elements are matched by local name
+const all = (el: Element | Document, name: string) => Array.from(el.getElementsByTagNameNS("*", name));
+const first = (el: Element | Document, name: string) => all(el, name)[0] as Element | undefined;
+const textOf = (el: Element | undefined) => el?.textContent?.trim() ?? "";
+
+interface QtiMeta {
+  tags: string[];
+  difficulty?: Difficulty;
+}
+
+const parseQtiItem = (doc: Document, meta: QtiMeta): { candidate: Record<string, unknown> | null; passage?: Passage; errors: string[] } => {
+  const root = doc.documentElement;
+  if (root.localName !== "assessmentItem") return { candidate: null, errors: ["is not a QTI assessmentItem"] };
+  const body = first(root, "itemBody");
+  if (!body) return { candidate: null, errors: ["has no itemBody"] };
+
+  const passageDiv = all(body, "div").find(d => (d.getAttribute("class") || "").split(/\s+/).includes("passage"));
+  const passageClasses = (passageDiv?.getAttribute("class") || "").split(/\s+/);
+  const passage: Passage | undefined = passageDiv ? {
+    id: (passageDiv.getAttribute("id") || "").replace(/^passage_/, "") || crypto.randomUUID(),
+    ...(passageDiv.getAttribute("label") ? { title: passageDiv.getAttribute("label")! } : {}),
+    text: textOf(first(passageDiv, "p") ?? passageDiv),
+    ...(passageClasses.includes("poem") ? { kind: "poem" as const } : passageClasses.includes("prose") ? { kind: "prose" as const } : {}),
+  } : undefined;
+
+  const explanation = textOf(first(root, "modalFeedback"));
+  const declaration = first(root, "responseDeclaration");
+  const correctValues = declaration ? all(first(declaration, "correctResponse") ?? declaration, "value").map(v => textOf(v)) : [];
+  const common: Record<string, unknown> = {
+    ...(meta.tags.length ? { tags: meta.tags } : {}),
+    ...(meta.difficulty ? { difficulty: meta.difficulty } : {}),
+    ...(passage ? { passageId: passage.id } : {}),
+    ...(explanation ? { explanation } : {}),
+  };
+
+  const choice = first(body, "choiceInteraction");
+  if (choice) {
+    const text = textOf(first(choice, "prompt"));
+    const choices = all(choice, "simpleChoice");
+    const ids = choices.map(c => c.getAttribute("identifier") || "");
+    const options = choices.map(c => textOf(c));
+    if (ids.length === 2 && [...ids].sort().join() === "false,true") {
+      return { candidate: { type: "true-false", text, correctAnswer: correctValues[0] === "true", ...common }, passage, errors: [] };
+    }
+    const single = choice.getAttribute("maxChoices") === "1" && declaration?.getAttribute("cardinality") === "single";
+    return {
+      candidate: single
+        ? { type: "mcq", text, options, correctIndex: ids.indexOf(correctValues[0]), ...common }
+        : { type: "multi-select", text, options, correctIndices: correctValues.map(v => ids.indexOf(v)), ...common },
+      passage,
+      errors: [],
+    };
+  }
+
+  const match = first(body, "matchInteraction");
+  if (match) {
+    const [promptSet, choiceSet] = all(match, "simpleMatchSet");
+    const promptEls = promptSet ? all(promptSet, "simpleAssociableChoice") : [];
+    const choiceEls = choiceSet ? all(choiceSet, "simpleAssociableChoice") : [];
+    const choiceIds = choiceEls.map(c => c.getAttribute("identifier"));
+    const pairs = correctValues.map(v => v.split(/\s+/));
+    return {
+      candidate: {
+        type: "match",
+        text: textOf(first(match, "prompt")),
+        prompts: promptEls.map(p => textOf(p)),
+        choices: choiceEls.map(c => textOf(c)),
+        correctMatches: promptEls.map(p => choiceIds.indexOf(pairs.find(([from]) => from === p.getAttribute("identifier"))?.[1] ?? null)),
+        ...common,
+      },
+      passage,
+      errors: [],
+    };
+  }
+
+  const entry = first(body, "textEntryInteraction");
+  if (entry?.parentElement) {
+    const nodes = Array.from(entry.parentElement.childNodes);
+    const at = nodes.indexOf(entry);
+    const before = nodes.slice(0, at).map(n => n.textContent ?? "").join("");
+    const after = nodes.slice(at + 1).map(n => n.textContent ?? "").join("");
+    const entries = declaration ? all(declaration, "mapEntry") : [];
+    const caseSensitive = entries.some(e => e.getAttribute("caseSensitive") === "true");
+    const previous = entry.parentElement.previousElementSibling;
+    const question = !before.trim() && !after.trim() && previous && previous !== passageDiv ? textOf(previous) : "";
+    return {
+      candidate: {
+        type: "fill-blank",
+        text: question || `${before.trimStart()}___${after.trimEnd()}`,
+        acceptedAnswers: entries.length ? entries.map(e => e.getAttribute("mapKey") || "") : correctValues,
+        ...(caseSensitive ? { caseSensitive } : {}),
+        ...common,
+      },
+      passage,
+      errors: [],
+    };
+  }
+
+  const other = Array.from(body.getElementsByTagName("*")).find(el => el.localName.endsWith("Interaction"));
+  return { candidate: null, errors: [other ? `${other.localName} isn't supported` : "has no interaction"] };
+};
+
+const lomMeta = (resource: Element): QtiMeta => {
+  const value = textOf(first(first(resource, "difficulty") ?? resource, "value"));
+  const difficulty = /easy/.test(value) ? "Easy" : value === "medium" ? "Medium" : /difficult/.test(value) ? "Hard" : undefined;
+  return {
+    tags: all(resource, "keyword").map(k => textOf(k).toLowerCase()).filter(Boolean),
+    ...(first(resource, "difficulty") && difficulty ? { difficulty: difficulty as Difficulty } : {}),
+  };
+};
+
+const importQti = async (fileName: string, bytes: Uint8Array): Promise<ImportedQuiz> => {
+  const decoder = new TextDecoder();
+  const sources: { name: string; text: string; meta: QtiMeta }[] = [];
+  let title: string | undefined;
+
+  if (!isZip(bytes)) {
+    sources.push({ name: fileName, text: decoder.decode(bytes), meta: { tags: [] } });
+  } else {
+    let files: Map<string, Uint8Array>;
+    try {
+      files = await readZip(bytes);
+    } catch (e: any) {
+      return fileError(e.message);
+    }
+    const manifestBytes = files.get("imsmanifest.xml");
+    const manifest = manifestBytes ? parseXml(decoder.decode(manifestBytes)) : null;
+    const resources = manifest ? all(manifest, "resource").filter(r => (r.getAttribute("type") || "").startsWith("imsqti_item")) : [];
+    if (manifest) title = textOf(first(first(manifest, "title") ?? manifest, "string")) || undefined;
+    if (resources.length > 0) {
+      resources.forEach(r => {
+        const href = r.getAttribute("href") || "";
+        const data = files.get(href);
+        sources.push({ name: href, text: data ? decoder.decode(data) : "", meta: lomMeta(r) });
+      });
+    } else {
+      Array.from(files.keys()).filter(n => n.endsWith(".xml") && n !== "imsmanifest.xml").sort()
+        .forEach(name => sources.push({ name, text: decoder.decode(files.get(name)!), meta: { tags: [] } }));
+    }
+    if (sources.length === 0) return fileError("The package has no QTI items");
+  }
+
+  const parsed = sources.map(({ name, text, meta }) => {
+    const doc = text ? parseXml(text) : null;
+    return { name, ...(doc ? parseQtiItem(doc, meta) : { candidate: null, errors: [text ? "is not valid XML" : "is missing from the package"] }) };
+  });
+  const passages: Passage[] = [];
+  parsed.forEach(p => {
+    if (p.passage && !passages.some(existing => existing.id === p.passage!.id)) passages.push(p.passage);
+  });
+  return {
+    title,
+    passages,
+    rows: parsed.map(p => toRow(p.name, p.candidate, passages, p.errors.map(e => `item ${e}`))),
+  };
+};
+
+// --- Entry points ---
+
+export const importQuiz = async (fileName: string, bytes: Uint8Array, format: QuizFormat): Promise<ImportedQuiz> => {
+  if (format === "qti") return importQti(fileName, bytes);
+  const text = new TextDecoder().decode(bytes);
+  if (format === "json") return importJson(text);
+  if (format === "csv") return importCsv(text);
+  return importGift(text);
+};
+
+export const exportQuiz = (quiz: Quiz, format: QuizFormat): Blob => {
+  const { mimeType } = QUIZ_FORMATS[format];
+  switch (format) {
+    case "json": return new Blob([exportJson(quiz)], { type: mimeType });
+    case "csv": return new Blob([exportCsv(quiz)], { type: `${mimeType};charset=utf-8` });
+    case "gift": return new Blob([exportGift(quiz)], { type: `${mimeType};charset=utf-8` });
+    case "qti": return new Blob([exportQti(quiz)], { type: mimeType });
+  }
+};
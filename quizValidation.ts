@@ -0,0 +1,185 @@
+import type { Passage, Question, Quiz } from "./types.ts";
+
+export const OPTION_COUNT = 4;
+
+export interface ValidationIssue {
+  index: number | null; // Question index, or null for quiz-level problems
+  field: string;
+  message: string;
+}
+
+export interface QuizValidationReport {
+  valid: boolean;
+  expected: number;
+  received: number;
+  issues: ValidationIssue[];
+}
+
+// Models sometimes wrap JSON in ```json fences or add a sentence around it
+export const parseModelJson = (text: string): unknown => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf("}"), body.lastIndexOf("]"));
+    if (start === -1 || end <= start) throw new Error("Response did not contain JSON");
+    return JSON.parse(body.slice(start, end + 1));
+  }
+};
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+
+const isIndex = (v: unknown, length: number) => Number.isInteger(v) && (v as number) >= 0 && (v as number) < length;
+
+export const validateQuestion = (q: unknown, index: number): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ index, field, message });
+
+  if (q === undefined) {
+    issue("question", "is missing");
+    return issues;
+  }
+  if (!q || typeof q !== "object") {
+    issue("question", "is not an object");
+    return issues;
+  }
+  const { type, text, explanation } = q as Record<string, unknown>;
+  const fields = q as Record<string, unknown>;
+
+  if (!isNonEmptyString(text)) issue("text", "must be a non-empty string");
+
+  const checkDistinctStrings = (field: string, min: number, exact?: number) => {
+    const list = fields[field];
+    if (!Array.isArray(list) || (exact !== undefined ? list.length !== exact : list.length < min)) {
+      issue(field, exact !== undefined ? `must have exactly ${exact} entries` : `must have at least ${min} entries`);
+    } else if (!list.every(isNonEmptyString)) {
+      issue(field, "must all be non-empty strings");
+    } else if (new Set(list.map(o => o.trim().toLowerCase())).size !== list.length) {
+      issue(field, "must be distinct");
+    }
+    return Array.isArray(list) ? list.length : 0;
+  };
+
+  switch (type) {
+    case undefined:
+    case "mcq": {
+      checkDistinctStrings("options", OPTION_COUNT, OPTION_COUNT);
+      if (!isIndex(fields.correctIndex, OPTION_COUNT)) {
+        issue("correctIndex", `must be an integer from 0 to ${OPTION_COUNT - 1}`);
+      }
+      break;
+    }
+    case "true-false":
+      if (typeof fields.correctAnswer !== "boolean") issue("correctAnswer", "must be true or false");
+      break;
+    case "multi-select": {
+      const count = checkDistinctStrings("options", 2);
+      const { correctIndices } = fields;
+      if (!Array.isArray(correctIndices) || correctIndices.length === 0 || !correctIndices.every(i => isIndex(i, count))) {
+        issue("correctIndices", "must list at least one option index");
+      } else if (new Set(correctIndices).size !== correctIndices.length) {
+        issue("correctIndices", "must not repeat an option");
+      }
+      break;
+    }
+    case "fill-blank": {
+      const { acceptedAnswers, caseSensitive } = fields;
+      if (!Array.isArray(acceptedAnswers) || acceptedAnswers.length === 0 || !acceptedAnswers.every(isNonEmptyString)) {
+        issue("acceptedAnswers", "must list at least one non-empty answer");
+      }
+      if (caseSensitive !== undefined && typeof caseSensitive !== "boolean") issue("caseSensitive", "must be true or false");
+      break;
+    }
+    case "match": {
+      const prompts = checkDistinctStrings("prompts", 2);
+      const choices = checkDistinctStrings("choices", 2);
+      const { correctMatches } = fields;
+      if (!Array.isArray(correctMatches) || correctMatches.length !== prompts || !correctMatches.every(c => isIndex(c, choices))) {
+        issue("correctMatches", "must give a choice for every prompt");
+      } else if (new Set(correctMatches).size !== correctMatches.length) {
+        issue("correctMatches", "must not reuse a choice");
+      }
+      break;
+    }
+    default:
+      issue("type", "is not a supported question type");
+  }
+
+  if (explanation !== undefined && typeof explanation !== "string") {
+    issue("explanation", "must be a string");
+  }
+  return issues;
+};
+
+export const isValidQuestion = (q: unknown): q is Question => validateQuestion(q, 0).length === 0;
+
+export const validateQuestions = (questions: unknown, expected: number): QuizValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const list = Array.isArray(questions) ? questions : [];
+
+  if (!Array.isArray(questions)) issues.push({ index: null, field: "questions", message: "must be an array" });
+  else if (list.length !== expected) {
+    issues.push({ index: null, field: "questions", message: `expected exactly ${expected} questions, got ${list.length}` });
+  }
+  list.forEach((q, i) => issues.push(...validateQuestion(q, i)));
+
+  return { valid: issues.length === 0, expected, received: list.length, issues };
+};
+
+export const validatePassage = (p: unknown): string | null => {
+  if (!p || typeof p !== "object") return "is missing";
+  const { id, text } = p as Record<string, unknown>;
+  if (!isNonEmptyString(id)) return "must have an id";
+  if (!isNonEmptyString(text)) return "must have non-empty text";
+  return null;
+};
+
+// Every passage needs text, and every passageId must point at one of the quiz's passages
+export const validatePassages = (passages: Passage[] = [], questions: Question[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  passages.forEach((p, i) => {
+    const problem = validatePassage(p);
+    if (problem) issues.push({ index: null, field: `passage ${i + 1}`, message: problem });
+  });
+  const ids = new Set(passages.map(p => p.id));
+  questions.forEach((q, i) => {
+    if (q.passageId && !ids.has(q.passageId)) issues.push({ index: i, field: "passageId", message: "points to a missing passage" });
+  });
+  return issues;
+};
+
+export const validateSchedule = ({ opensAt, closesAt, maxAttempts }: Pick<Quiz, "opensAt" | "closesAt" | "maxAttempts">): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (opensAt !== undefined && closesAt !== undefined && closesAt <= opensAt) {
+    issues.push({ index: null, field: "close time", message: "must be after the open time" });
+  }
+  if (maxAttempts !== undefined && !(Number.isInteger(maxAttempts) && maxAttempts >= 1)) {
+    issues.push({ index: null, field: "max attempts", message: "must be a whole number of at least 1" });
+  }
+  return issues;
+};
+
+export const validateProctoring = ({ proctored, maxViolations }: Pick<Quiz, "proctored" | "maxViolations">): ValidationIssue[] =>
+  proctored && maxViolations !== undefined && !(Number.isInteger(maxViolations) && maxViolations >= 1)
+    ? [{ index: null, field: "violation limit", message: "must be a whole number of at least 1" }]
+    : [];
+
+export const validateAdaptive = ({ adaptive, adaptiveLength, questions }: Pick<Quiz, "adaptive" | "adaptiveLength" | "questions">): ValidationIssue[] =>
+  adaptive && adaptiveLength !== undefined && !(Number.isInteger(adaptiveLength) && adaptiveLength >= 1 && adaptiveLength <= questions.length)
+    ? [{ index: null, field: "adaptive length", message: `must be a whole number from 1 to the pool size (${questions.length})` }]
+    : [];
+
+export const formatIssue = ({ index, field, message }: ValidationIssue) =>
+  `${index === null ? "Quiz" : `Question ${index + 1}`}: ${field} ${message}`;
+
+export class QuizValidationError extends Error {
+  report: QuizValidationReport;
+
+  constructor(report: QuizValidationReport) {
+    super(`Generated quiz failed validation (${report.issues.length} issue${report.issues.length === 1 ? "" : "s"}): ${report.issues.slice(0, 3).map(formatIssue).join("; ")}`);
+    this.name = "QuizValidationError";
+    this.report = report;
+  }
+}
@@ -0,0 +1,23 @@
+import { resultStudentId } from "./students.ts";
+import type { Quiz, Result } from "./types.ts";
+
+export type Availability = "upcoming" | "open" | "closed";
+
+type Schedule = Pick<Quiz, "opensAt" | "closesAt">;
+
+export const quizAvailability = (quiz: Schedule, now = Date.now()): Availability => {
+  if (quiz.opensAt !== undefined && now < quiz.opensAt) return "upcoming";
+  if (quiz.closesAt !== undefined && now >= quiz.closesAt) return "closed";
+  return "open";
+};
+
+export const countAttempts = (results: Pick<Result, "quizId" | "studentId" | "studentName">[], quizId: string, studentId: string) =>
+  results.filter(r => r.quizId === quizId && resultStudentId(r) === studentId).length;
+
+export const attemptsLeft = (quiz: Pick<Quiz, "maxAttempts">, used: number) =>
+  quiz.maxAttempts === undefined ? Infinity : Math.max(0, quiz.maxAttempts - used);
+
+// Practice checks answers one at a time, so it only opens once it can't help with a graded attempt:
+// the quiz has closed, or the student has no attempts left
+export const practiceAvailable = (quiz: Schedule & Pick<Quiz, "maxAttempts">, submitted: number, now = Date.now()) =>
+  quizAvailability(quiz, now) === "closed" || attemptsLeft(quiz, submitted) === 0;
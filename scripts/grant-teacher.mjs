@@ -0,0 +1,16 @@
+// Usage: npm run grant-teacher -- teacher@example.com
+// Uses GOOGLE_APPLICATION_CREDENTIALS, or the Auth emulator when FIREBASE_AUTH_EMULATOR_HOST is set.
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+
+const email = process.argv[2];
+if (!email) {
+  console.error("Usage: npm run grant-teacher -- <email>");
+  process.exit(1);
+}
+
+initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID });
+
+const user = await getAuth().getUserByEmail(email);
+await getAuth().setCustomUserClaims(user.uid, { ...user.customClaims, role: "teacher" });
+console.log(`Granted teacher role to ${email} (${user.uid}). They must sign in again to pick it up.`);
@@ -0,0 +1,33 @@
+// Usage: npm run link-legacy-results
+// Sets studentId on results recorded before student profiles, when exactly one student has that name.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+
+initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID });
+const db = getFirestore();
+
+const normalize = (name) => name.trim().toLowerCase();
+
+const students = await db.collection("students").get();
+const idsByName = new Map();
+for (const studentDoc of students.docs) {
+  const key = normalize(studentDoc.get("name"));
+  idsByName.set(key, [...(idsByName.get(key) || []), studentDoc.id]);
+}
+
+const results = await db.collection("results").get();
+let linked = 0;
+const ambiguous = new Set();
+for (const resultDoc of results.docs) {
+  if (resultDoc.get("studentId")) continue;
+  const name = normalize(resultDoc.get("studentName") || "");
+  const ids = idsByName.get(name) || [];
+  if (ids.length !== 1) {
+    if (ids.length > 1) ambiguous.add(name);
+    continue;
+  }
+  await resultDoc.ref.update({ studentId: ids[0] });
+  linked++;
+}
+console.log(`Linked ${linked} of ${results.size} results to student profiles.`);
+if (ambiguous.size > 0) console.log(`Skipped names shared by several students: ${[...ambiguous].join(", ")}`);
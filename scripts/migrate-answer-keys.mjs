@@ -0,0 +1,25 @@
+// Usage: npm run migrate-answer-keys
+// Moves correctIndex/explanation out of existing `quizzes` docs into `quizKeys/{quizId}`.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+
+initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID });
+const db = getFirestore();
+
+const snapshot = await db.collection("quizzes").get();
+let migrated = 0;
+for (const quizDoc of snapshot.docs) {
+  const questions = quizDoc.get("questions") || [];
+  if (!questions.some((q) => "correctIndex" in q)) continue;
+
+  const batch = db.batch();
+  batch.set(db.collection("quizKeys").doc(quizDoc.id), {
+    questions: questions.map(({ correctIndex, explanation }) => ({ correctIndex, ...(explanation ? { explanation } : {}) })),
+  });
+  batch.update(quizDoc.ref, {
+    questions: questions.map(({ correctIndex, explanation, ...rest }) => rest),
+  });
+  await batch.commit();
+  migrated++;
+}
+console.log(`Moved answer keys for ${migrated} of ${snapshot.size} quizzes.`);
@@ -0,0 +1,27 @@
+// Usage: FIREBASE_STORAGE_BUCKET=<bucket> npm run migrate-notes
+// Moves base64 files out of existing `notes` docs into Firebase Storage, leaving only metadata behind.
+import { initializeApp } from "firebase-admin/app";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID, storageBucket: process.env.FIREBASE_STORAGE_BUCKET });
+const db = getFirestore();
+const bucket = getStorage().bucket();
+
+// Same layout as noteStoragePath in notes.ts
+const storagePath = (noteId, fileName) => `notes/${noteId}/${fileName.replace(/[/\\]/g, "_")}`;
+
+const snapshot = await db.collection("notes").get();
+let migrated = 0;
+for (const noteDoc of snapshot.docs) {
+  const { fileData, fileName = "note.pdf", mimeType = "application/pdf" } = noteDoc.data();
+  if (!fileData) continue;
+
+  const path = storagePath(noteDoc.id, fileName);
+  const contents = Buffer.from(fileData, "base64");
+  // Uploaded before the doc is touched, so an interrupted run can simply be repeated
+  await bucket.file(path).save(contents, { contentType: mimeType, resumable: false });
+  await noteDoc.ref.update({ storagePath: path, size: contents.length, fileData: FieldValue.delete() });
+  migrated++;
+}
+console.log(`Moved files for ${migrated} of ${snapshot.size} notes to Storage.`);
@@ -0,0 +1,107 @@
+import type { Answer, PublicQuestion, Question, Quiz } from "./types.ts";
+
+// Option order for one question: displayed position -> canonical option index. null keeps the authored order.
+type OptionOrder = number[] | null;
+
+export interface AttemptLayout {
+  questionOrder: number[]; // Displayed position -> canonical question index
+  optionOrders: OptionOrder[]; // By canonical question index
+}
+
+type ShuffleSettings = Pick<Quiz, "shuffleQuestions" | "shuffleOptions">;
+
+// Options that refer to other options ("All of the above", "Both A and B") keep their position
+// Only whole phrases count, so answers like "above" or "below average" still shuffle
+const PINNED_OPTION = /\b(all|none|both|neither|any) of (the )?((options|answers|choices) )?(above|below|these|them)\b|\ball the above\b|^\s*(both|neither)\b/i;
+const OPTION_REFERENCE = /\b[A-D]\s*(,|and|&|or)\s*[A-D]\b/;
+
+export const isPinnedOption = (option: string) => PINNED_OPTION.test(option) || OPTION_REFERENCE.test(option);
+
+export const shufflesAttempts = (quiz: ShuffleSettings) => !!(quiz.shuffleQuestions || quiz.shuffleOptions);
+
+// mulberry32: small, fast and identical in the browser and on the server
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffleInPlace = <T,>(items: T[], random: () => number) => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+const identityOrder = (length: number) => Array.from({ length }, (_, i) => i);
+
+const shuffleOptions = (options: string[], random: () => number): number[] => {
+  const order = identityOrder(options.length);
+  const movable = order.filter(i => !isPinnedOption(options[i]));
+  const shuffled = shuffleInPlace([...movable], random);
+  return order.map(i => isPinnedOption(options[i]) ? i : shuffled[movable.indexOf(i)]);
+};
+
+export const identityLayout = (count: number): AttemptLayout => ({
+  questionOrder: identityOrder(count),
+  optionOrders: Array(count).fill(null),
+});
+
+// Reproducible from the seed saved on the attempt. Questions sharing a passage move as one block.
+export const attemptLayout = (questions: PublicQuestion[], settings: ShuffleSettings, seed?: number): AttemptLayout => {
+  if (seed === undefined || !shufflesAttempts(settings)) return identityLayout(questions.length);
+  const random = seededRandom(seed);
+
+  const blocks: number[][] = [];
+  questions.forEach((q, i) => {
+    const last = blocks[blocks.length - 1];
+    if (q.passageId && last && questions[last[0]].passageId === q.passageId) last.push(i);
+    else blocks.push([i]);
+  });
+  const questionOrder = settings.shuffleQuestions
+    ? shuffleInPlace(blocks, random).flatMap(block => shuffleInPlace(block, random))
+    : identityOrder(questions.length);
+
+  const optionOrders = questions.map(q =>
+    settings.shuffleOptions && "options" in q
+      ? shuffleOptions(q.options, random)
+      : null
+  );
+  return { questionOrder, optionOrders };
+};
+
+// Shows a question's options, and the key if present, in the attempt's order
+export const permuteOptions = <Q extends Question | PublicQuestion>(q: Q, order: OptionOrder): Q => {
+  if (!order || !("options" in q)) return q;
+  const permuted: any = { ...q, options: order.map(i => q.options[i]) };
+  if ("correctIndex" in q && typeof q.correctIndex === "number") permuted.correctIndex = order.indexOf(q.correctIndex);
+  if ("correctIndices" in q && Array.isArray(q.correctIndices)) permuted.correctIndices = q.correctIndices.map(i => order.indexOf(i)).sort((a, b) => a - b);
+  return permuted;
+};
+
+// Answers are stored against the canonical option indices so grading and statistics never see the shuffle
+export const toCanonicalAnswer = (answer: Answer, order: OptionOrder): Answer => {
+  if (!order || answer === null) return answer;
+  if (typeof answer === "number") return order[answer];
+  if (Array.isArray(answer)) return answer.map(i => order[i]);
+  return answer;
+};
+
+export const toDisplayAnswer = (answer: Answer, order: OptionOrder): Answer => {
+  if (!order || answer === null) return answer;
+  if (typeof answer === "number") return order.indexOf(answer);
+  if (Array.isArray(answer)) return answer.map(i => order.indexOf(i));
+  return answer;
+};
+
+// The questions and answers of an attempt as the student saw them, for review screens and reports
+export const presentAttempt = <Q extends Question | PublicQuestion>(questions: Q[], answers: Answer[], layout: AttemptLayout) => ({
+  questions: layout.questionOrder.map(c => permuteOptions(questions[c], layout.optionOrders[c])),
+  answers: layout.questionOrder.map(c => toDisplayAnswer(answers[c] ?? null, layout.optionOrders[c])),
+});
@@ -0,0 +1,30 @@
+import type { ReviewCard } from "./types.ts";
+
+// SM-2 answer quality: below 3 is a lapse
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type ReviewSchedule = Pick<ReviewCard, "easeFactor" | "interval" | "repetitions" | "due">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+// Missed questions are due straight away
+export const newSchedule = (now: number): ReviewSchedule => ({ easeFactor: 2.5, interval: 0, repetitions: 0, due: now });
+
+export const scheduleReview = (card: ReviewSchedule, quality: ReviewQuality, now: number): ReviewSchedule => {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  if (quality < 3) return { easeFactor, interval: 1, repetitions: 0, due: now + DAY_MS };
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor);
+  return { easeFactor, interval, repetitions, due: now + interval * DAY_MS };
+};
+
+// "Today's Review" serves everything due before local midnight
+export const endOfToday = (now: number) => {
+  const end = new Date(now);
+  end.setHours(24, 0, 0, 0);
+  return end.getTime();
+};
+
+export const dueCards = (cards: ReviewCard[], now: number) =>
+  cards.filter(c => c.due < endOfToday(now)).sort((a, b) => a.due - b.due);
@@ -0,0 +1,20 @@
+import type { Result } from "./types.ts";
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export const normalizeRollNumber = (rollNumber: string) => rollNumber.replace(/\s+/g, "").toUpperCase();
+
+// `loginFailures` is keyed by roll number, so unknown roll numbers are locked out the same way
+export const loginFailureId = (rollNumber: string) => encodeURIComponent(normalizeRollNumber(rollNumber));
+
+// Wrong PINs allowed before a roll number is locked; each lock after that doubles, up to a day
+export const FREE_LOGIN_FAILURES = 5;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export const loginLockoutMs = (failures: number) =>
+  failures < FREE_LOGIN_FAILURES ? 0 : Math.min(60 * 1000 * 2 ** (failures - FREE_LOGIN_FAILURES), MAX_LOCKOUT_MS);
+
+// Results from before student profiles only carry a name; they group by that name
+// but can never match a real student ID
+export const resultStudentId = (r: Pick<Result, "studentId" | "studentName">) =>
+  r.studentId ?? `legacy:${r.studentName.trim().toLowerCase()}`;
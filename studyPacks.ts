@@ -0,0 +1,44 @@
+import type { Flashcard, GenerateStudyPackResponse, StudyPack, StudyProgress, VocabularyEntry } from "./types.ts";
+
+export const MAX_SUMMARY_POINTS = 12;
+export const MAX_VOCABULARY = 30;
+export const MAX_FLASHCARDS = 40;
+
+const text = (value: unknown) => typeof value === "string" ? value.trim() : "";
+
+// Model output is loosely typed; blank entries are dropped and lists capped
+export const normalizeStudyPack = (data: unknown): GenerateStudyPackResponse => {
+  const raw = data && typeof data === "object" ? data as Record<string, unknown> : {};
+  const list = (value: unknown) => Array.isArray(value) ? value : [];
+  const field = (item: unknown, name: string) => text(item && typeof item === "object" ? (item as Record<string, unknown>)[name] : undefined);
+  return {
+    summary: list(raw.summary).map(text).filter(Boolean).slice(0, MAX_SUMMARY_POINTS),
+    vocabulary: list(raw.vocabulary)
+      .map((v): VocabularyEntry => ({ term: field(v, "term"), meaning: field(v, "meaning") }))
+      .filter(v => v.term && v.meaning)
+      .slice(0, MAX_VOCABULARY),
+    flashcards: list(raw.flashcards)
+      .map((c): Flashcard => ({ id: crypto.randomUUID(), front: field(c, "front"), back: field(c, "back") }))
+      .filter(c => c.front && c.back)
+      .slice(0, MAX_FLASHCARDS),
+  };
+};
+
+// Checked before a teacher saves an edited pack; returns readable problems, empty when fine
+export const validateStudyPack = ({ summary, vocabulary, flashcards }: Pick<StudyPack, "summary" | "vocabulary" | "flashcards">): string[] => {
+  const issues: string[] = [];
+  if (summary.length === 0 && vocabulary.length === 0 && flashcards.length === 0) issues.push("The study pack is empty.");
+  summary.forEach((point, i) => { if (!point.trim()) issues.push(`Summary point ${i + 1} is blank.`); });
+  vocabulary.forEach((v, i) => { if (!v.term.trim() || !v.meaning.trim()) issues.push(`Vocabulary ${i + 1} needs a term and a meaning.`); });
+  flashcards.forEach((c, i) => { if (!c.front.trim() || !c.back.trim()) issues.push(`Flashcard ${i + 1} needs a front and a back.`); });
+  if (summary.length > MAX_SUMMARY_POINTS) issues.push(`Keep the summary to ${MAX_SUMMARY_POINTS} points.`);
+  if (vocabulary.length > MAX_VOCABULARY) issues.push(`Keep vocabulary to ${MAX_VOCABULARY} entries.`);
+  if (flashcards.length > MAX_FLASHCARDS) issues.push(`Keep the deck to ${MAX_FLASHCARDS} flashcards.`);
+  return issues;
+};
+
+export const studyProgressId = (studentId: string, noteId: string) => `${studentId}_${noteId}`;
+
+// Cards removed since the student marked them don't count
+export const knownCards = (pack: Pick<StudyPack, "flashcards">, progress: Pick<StudyProgress, "known"> | null) =>
+  pack.flashcards.filter(c => progress?.known.includes(c.id)).length;
@@ -0,0 +1,408 @@
+// Domain types shared by the React app and the api/ routes
+
+export type Difficulty = "Easy" | "Medium" | "Hard";
+
+export type QuestionType = "mcq" | "true-false" | "multi-select" | "fill-blank" | "match";
+
+interface QuestionBase {
+  text: string;
+  explanation?: string;
+  bankId?: string; // Set when the question was saved to or picked from the question bank
+  tags?: string[]; // Copied from the bank so progress can be broken down by topic
+  difficulty?: Difficulty; // Per question in adaptive pools; the quiz's difficulty when unset
+  passageId?: string; // Points into Quiz.passages for reading comprehension sets
+}
+
+// Quizzes created before question types existed have no `type` and are single-answer MCQs
+export interface McqQuestion extends QuestionBase {
+  type?: "mcq";
+  options: string[];
+  correctIndex: number;
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  type: "true-false";
+  correctAnswer: boolean;
+}
+
+export interface MultiSelectQuestion extends QuestionBase {
+  type: "multi-select";
+  options: string[];
+  correctIndices: number[];
+}
+
+// `text` marks the blank with ___; answers are compared trimmed and, by default, case-insensitively
+export interface FillBlankQuestion extends QuestionBase {
+  type: "fill-blank";
+  acceptedAnswers: string[];
+  caseSensitive?: boolean;
+}
+
+export interface MatchQuestion extends QuestionBase {
+  type: "match";
+  prompts: string[];
+  choices: string[];
+  correctMatches: number[]; // correctMatches[i] is the index in `choices` that belongs to prompts[i]
+}
+
+export type Question = McqQuestion | TrueFalseQuestion | MultiSelectQuestion | FillBlankQuestion | MatchQuestion;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// The part of a question that only teachers and the server may see
+export type QuestionKey = DistributiveOmit<Question, "text" | "options" | "prompts" | "choices" | "bankId" | "tags" | "difficulty" | "passageId">;
+
+export type PublicQuestion = DistributiveOmit<Question, "correctIndex" | "correctAnswer" | "correctIndices" | "acceptedAnswers" | "caseSensitive" | "correctMatches" | "explanation">;
+
+// What a student gives for one question; null when skipped.
+// mcq: option index, true-false: boolean, multi-select: option indices,
+// fill-blank: text, match: choice index per prompt (-1 while unmatched)
+export type Answer = number | boolean | number[] | string | null;
+
+// An unseen passage or poem shared by several questions
+export interface Passage {
+  id: string;
+  title?: string;
+  text: string;
+  kind?: "prose" | "poem";
+}
+
+// Which of a student's attempts a quiz's leaderboard ranks
+export type LeaderboardAttempt = "best" | "first";
+
+export interface Quiz {
+  id: string;
+  title: string;
+  subject?: string;
+  difficulty: Difficulty;
+  questions: Question[];
+  passages?: Passage[];
+  durationMinutes: number;
+  opensAt?: number; // Epoch ms; open immediately when unset
+  closesAt?: number; // Epoch ms; never closes when unset
+  maxAttempts?: number; // Per student; unlimited when unset
+  batchIds?: string[]; // Visible to every student when unset or empty
+  shuffleQuestions?: boolean; // Per attempt, from the seed saved on it
+  shuffleOptions?: boolean;
+  proctored?: boolean; // Records tab switches, fullscreen exits and copy/paste on the attempt
+  maxViolations?: number; // Auto-submit once reached; proctored quizzes only warn when unset
+  adaptive?: boolean; // Serves questions one at a time from the pool, matched to the student's estimated level
+  adaptiveLength?: number; // Questions served per adaptive attempt; the whole pool when unset
+  starts?: number;
+  version?: number; // Bumped whenever the published questions change; unset means 1
+  noteId?: string; // Study note the questions were generated from
+  leaderboardAttempt?: LeaderboardAttempt; // "best" when unset
+  createdAt: number;
+}
+
+// What students read from `quizzes`; the key lives in `quizKeys/{quizId}`
+export interface PublishedQuiz extends Omit<Quiz, "questions"> {
+  questions: PublicQuestion[];
+}
+
+export interface AnswerKey {
+  questions: QuestionKey[];
+}
+
+// Teacher-only `quizVersions/{quizId}_{version}`: every published version with its key,
+// so past attempts are reviewed against the questions they were shown
+export interface QuizVersion {
+  quizId: string;
+  quiz: Omit<PublishedQuiz, "id" | "starts">;
+  key: QuestionKey[];
+}
+
+// Teacher-only `questionBank` collection
+export interface QuestionUsage {
+  timesUsed: number; // Published quizzes that included it
+  lastUsedAt?: number;
+  attempts: number; // Graded answers across those quizzes
+  correct: number;
+}
+
+export interface BankMeta {
+  id: string;
+  passage?: Passage; // Copied in so the question still makes sense outside its quiz
+  subject: string;
+  tags: string[];
+  difficulty: Difficulty;
+  usage: QuestionUsage;
+  createdAt: number;
+}
+
+export type BankQuestion = Question & BankMeta;
+
+export interface Result {
+  id: string;
+  quizId: string;
+  studentId?: string; // Missing on results recorded before student profiles
+  studentName: string; // Display name at the time of the attempt
+  score: number;
+  total: number;
+  seed?: number; // Copied from the attempt to reproduce the order the student saw
+  integrity?: IntegritySummary; // Proctored quizzes only; the full log stays on the attempt
+  ability?: number; // Adaptive quizzes only: estimate on the Easy -1 / Medium 0 / Hard 1 scale
+  level?: Difficulty; // Adaptive quizzes only: the level nearest the ability estimate
+  quizVersion?: number; // Set on results that have a ResultDetail
+  timeTaken?: number; // Seconds from starting the attempt to submitting it; breaks leaderboard ties
+  date: number;
+}
+
+// Stored under the result's ID; results are public for leaderboards, the chosen answers are not
+export interface ResultDetail {
+  quizId: string;
+  studentId: string;
+  answers: Record<string, Answer>; // Canonical order, keyed by question index
+  timeSpent: number[]; // Seconds per question, canonical order
+  correct?: boolean[]; // Graded per question; students can't read the key to work it out
+  served?: number[]; // Adaptive quizzes only: the questions the student was given, in order
+  topics?: Record<string, string[]>; // Keyed by question index, as tagged when the attempt was taken
+  quizVersion: number;
+}
+
+// An untimed practice run; kept apart from results so it never counts for leaderboards or badges
+export interface PracticeSession {
+  id: string;
+  studentId: string;
+  quizId: string;
+  tries: number[]; // Checks per question
+  solved: boolean[]; // Answered correctly at least once
+  firstTry: number; // Questions answered correctly on the first check
+  startedAt: number;
+  updatedAt: number;
+}
+
+// One missed question in a student's review deck, stored as `${studentId}_${quizId}_${questionIndex}`.
+// Created by /api/submit-quiz; the student updates the schedule as they review (see srs.ts)
+export interface ReviewCard {
+  id: string;
+  studentId: string;
+  quizId: string;
+  questionIndex: number;
+  question: Question; // With its key, so answers can be checked offline
+  passage?: Passage;
+  easeFactor: number;
+  interval: number; // Days
+  repetitions: number;
+  due: number; // Epoch ms
+  lastReviewedAt?: number;
+  createdAt: number;
+}
+
+export interface Note {
+  id: string;
+  title: string;
+  description: string;
+  fileName: string;
+  storagePath?: string; // Firebase Storage object; the listing only carries metadata
+  size?: number; // Bytes
+  fileData?: string; // Base64, on notes uploaded before Storage
+  mimeType: string;
+  batchIds?: string[];
+  createdAt: number;
+}
+
+export interface VocabularyEntry {
+  term: string;
+  meaning: string;
+}
+
+export interface Flashcard {
+  id: string; // Stable across edits, so study progress survives them
+  front: string;
+  back: string;
+}
+
+// `studyPacks/{noteId}`: generated from the note, then reviewed and saved by a teacher
+export interface StudyPack {
+  id: string;
+  noteId: string;
+  summary: string[]; // Bullet points
+  vocabulary: VocabularyEntry[];
+  flashcards: Flashcard[];
+  updatedAt: number;
+}
+
+// `studyProgress/${studentId}_${noteId}`; written by the student as they go through the deck
+export interface StudyProgress {
+  id: string;
+  studentId: string;
+  noteId: string;
+  known: string[]; // Flashcard IDs marked as known
+  updatedAt: number;
+}
+
+export interface Batch {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// `batchCodes/{code}`, teacher-only so join codes can't be listed by students
+export interface BatchCode {
+  batchId: string;
+}
+
+export interface Enrollment {
+  id: string;
+  batchId: string;
+  studentId: string;
+  studentName: string;
+  joinedAt: number;
+}
+
+export type ProctorEventType = "hidden" | "visible" | "blur" | "focus" | "fullscreen-exit" | "copy" | "cut" | "paste";
+
+export interface ProctorEvent {
+  type: ProctorEventType;
+  at: number;
+}
+
+export interface IntegritySummary {
+  violations: number;
+  counts: Partial<Record<ProctorEventType, number>>;
+}
+
+// `attempts/{attemptId}`: created by /api/start-attempt, answers saved by the student as they go.
+// The result of a submitted attempt is stored under the same ID.
+export interface Attempt {
+  id: string;
+  quizId: string;
+  studentId: string;
+  startedAt: number; // Server time
+  deadline: number; // startedAt plus the quiz duration
+  quizVersion?: number; // Graded against this version even if the quiz is edited meanwhile; the live quiz when unset
+  seed?: number; // Set when the quiz shuffles; see shuffle.ts
+  events?: ProctorEvent[]; // Proctored quizzes only
+  answers: Record<string, Answer>; // Keyed by question index
+  timeSpent?: number[]; // Seconds per question, saved with the answers
+  served?: number[]; // Adaptive quizzes only: question indices in the order served; the last one is current
+  responses?: boolean[]; // Adaptive quizzes only: graded by /api/adaptive-next, one per answered question
+  updatedAt: number;
+  status: "in-progress" | "submitted";
+}
+
+// `students/{studentId}`; the doc ID is also the student's Firebase Auth uid
+export interface Student {
+  id: string;
+  rollNumber: string;
+  name: string;
+  createdAt: number;
+}
+
+// POST /api/generate-quiz (teachers only)
+export interface GenerateQuizRequest {
+  prompt?: string;
+  numQuestions: number;
+  difficulty: Difficulty;
+  file?: { data: string; mimeType: string }; // Base64 PDF
+  noteId?: string; // Generate from a stored study note instead of an uploaded file
+  withPassage?: boolean; // Reading comprehension: one passage plus questions on it
+}
+
+export interface GenerateQuizResponse {
+  title: string;
+  subject: string;
+  questions: Question[];
+  passages?: Passage[];
+}
+
+// POST /api/student-login
+export interface StudentLoginRequest {
+  rollNumber: string;
+  pin: string;
+}
+
+export interface StudentLoginResponse {
+  token: string; // Firebase custom token for signInWithCustomToken
+}
+
+// POST /api/students (teachers only): creates a student, or resets the PIN when studentId is given
+export interface SaveStudentRequest {
+  studentId?: string;
+  rollNumber?: string;
+  name?: string;
+  pin: string;
+}
+
+export interface SaveStudentResponse {
+  student: Student;
+}
+
+// POST /api/start-attempt (signed-in students): returns the open attempt for the quiz if there is one
+export interface StartAttemptRequest {
+  quizId: string;
+}
+
+export interface StartAttemptResponse {
+  attempt: Attempt;
+  quiz: PublishedQuiz; // The version the attempt is on
+  resumed: boolean;
+  serverNow: number; // Lets the client correct for clock skew when counting down
+}
+
+// POST /api/submit-quiz (signed-in students); safe to retry
+export interface SubmitQuizRequest {
+  attemptId: string;
+  answers: Answer[];
+  timeSpent?: number[];
+}
+
+export interface SubmitQuizResponse {
+  result: Result;
+  detail: ResultDetail;
+  key: (QuestionKey | null)[]; // null for pool questions an adaptive attempt wasn't served
+}
+
+// POST /api/practice-check (signed-in students); starts a session when sessionId is missing
+export interface PracticeCheckRequest {
+  quizId: string;
+  sessionId?: string;
+  questionIndex: number;
+  answer: Answer;
+}
+
+export interface PracticeCheckResponse {
+  correct: boolean;
+  explanation?: string;
+  session: PracticeSession;
+}
+
+// POST /api/adaptive-next (signed-in students); answers the current adaptive question
+export interface AdaptiveNextRequest {
+  attemptId: string;
+  answer: Answer;
+}
+
+export interface AdaptiveNextResponse {
+  attempt: Attempt;
+  done: boolean; // No more questions; submit next
+}
+
+// POST /api/review-result (signed-in students, own results only)
+export interface ReviewResultRequest {
+  resultId: string;
+}
+
+export interface ReviewResultResponse {
+  result: Result;
+  detail: ResultDetail;
+  quiz: PublishedQuiz; // The version the attempt was taken on, when it was archived
+  key: (QuestionKey | null)[]; // null for pool questions an adaptive attempt wasn't served
+}
+
+// POST /api/generate-study-pack (teachers); a draft for review, saved by the client
+export interface GenerateStudyPackRequest {
+  noteId: string;
+}
+
+export type GenerateStudyPackResponse = Pick<StudyPack, "summary" | "vocabulary" | "flashcards">;
+
+// POST /api/join-batch (signed-in students)
+export interface JoinBatchRequest {
+  code: string;
+}
+
+export interface JoinBatchResponse {
+  batch: Batch;
+}
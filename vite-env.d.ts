@@ -7,7 +7,7 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET: string
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string
   readonly VITE_FIREBASE_APP_ID: string
-  readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_USE_FIREBASE_EMULATORS?: string
 }
 
 interface ImportMeta {